@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title SimpleTransferRegistry
+ * @dev SimpleTransferContract 部署登记合约
+ *
+ * 🎯 用途：
+ * - 每期学员部署一份新的 SimpleTransferContract 后，在这里登记一次
+ * - Subgraph 监听 ContractRegistered 事件，为登记的合约动态创建数据源
+ * - 所有部署共用同一个 Subgraph 端点，通过 contract 字段区分
+ *
+ * ⚠️ 注意：
+ * - 不要登记已在 subgraph.yaml 中静态配置的合约，否则同一事件会被索引两次
+ */
+contract SimpleTransferRegistry {
+
+    // 合约登记事件
+    event ContractRegistered(
+        address indexed contractAddress,  // 登记的 SimpleTransferContract 地址
+        address indexed registrant,       // 登记人
+        string name                       // 部署名称（如期数）
+    );
+
+    // 映射：合约地址是否已登记
+    mapping(address => bool) public isRegistered;
+
+    // 状态变量：已登记的合约数量
+    uint256 public totalRegistered;
+
+    /**
+     * @dev 登记一个 SimpleTransferContract 部署
+     * @param contractAddress 合约地址
+     * @param name 部署名称
+     */
+    function register(address contractAddress, string calldata name) external {
+        require(contractAddress.code.length > 0, "Not a contract");
+        require(!isRegistered[contractAddress], "Already registered");
+
+        isRegistered[contractAddress] = true;
+        totalRegistered++;
+
+        emit ContractRegistered(contractAddress, msg.sender, name);
+    }
+}
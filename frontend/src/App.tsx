@@ -8,12 +8,13 @@ import TransactionQuery from './components/TransactionQuery';
 import TransactionList from './components/TransactionList';
 import AddressQuery from './components/AddressQuery';
 import WalletTransfer from './components/WalletTransfer';
+import RpcSettings from './components/RpcSettings';
 import ErrorBoundary from './components/ErrorBoundary';
 
 // Create a react-query client
 const queryClient = new QueryClient();
 
-type TabType = 'transaction' | 'address' | 'wallet' | 'overview';
+type TabType = 'transaction' | 'address' | 'wallet' | 'overview' | 'settings';
 
 function App() {
   const [activeTab, setActiveTab] = useState<TabType>('transaction');
@@ -138,6 +139,23 @@ function App() {
               >
                 📊 数据概览
               </button>
+              <button
+                onClick={() => setActiveTab('settings')}
+                style={{
+                  padding: '12px 24px',
+                  background: activeTab === 'settings' ? 'rgba(255, 255, 255, 0.2)' : 'rgba(255, 255, 255, 0.05)',
+                  color: 'white',
+                  border: activeTab === 'settings' ? '2px solid rgba(255, 255, 255, 0.4)' : '2px solid rgba(255, 255, 255, 0.1)',
+                  borderRadius: '25px',
+                  cursor: 'pointer',
+                  transition: 'all 0.3s',
+                  fontSize: '16px',
+                  fontWeight: '600',
+                  backdropFilter: 'blur(5px)'
+                }}
+              >
+                ⚙️ 节点设置
+              </button>
             </div>
           </div>
         </header>
@@ -157,6 +175,7 @@ function App() {
               {activeTab === 'address' && <AddressQuery />}
               {activeTab === 'wallet' && <WalletTransfer onTransactionSuccess={handleTransferSuccess} />}
               {activeTab === 'overview' && <TransactionList enabled={true} />}
+              {activeTab === 'settings' && <RpcSettings />}
             </ErrorBoundary>
           </div>
         </main>
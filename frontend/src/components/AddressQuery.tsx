@@ -1,27 +1,46 @@
 import React, { useState } from 'react';
-import { ethereumService } from '../services/ethereumService';
-
-interface Transaction {
-  id: string;
-  hash: string;
-  from: { address: string };
-  to: { address: string } | null;
-  value: string;
-  gasUsed: string;
-  gasPrice: string;
-  blockNumber: string;
-  timestamp: string;
-  status: string;
-  transactionIndex: string;
-}
+import { ethereumService, type ProviderStats, type TransferRecordLog } from '../services/ethereumService';
+import {
+  useAccountDaySnapshotsQuery,
+  useAccountPairQuery,
+  useAccountStatsQuery,
+  useAccountTokenActivityQuery,
+  useAccountVolumeQuery
+} from '../hooks/useTransactionQuery';
 
 const AddressQuery: React.FC = () => {
   const [address, setAddress] = useState<string>('');
   const [searchAddress, setSearchAddress] = useState<string>('');
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [transactions, setTransactions] = useState<TransferRecordLog[]>([]);
+  // 事件日志扫描进度：已扫描区块数 / 总区块数
+  const [progress, setProgress] = useState<{ scanned: number; total: number } | null>(null);
+  // 本次查询期间成功响应过的 RPC 节点
+  const [servedBy, setServedBy] = useState<ProviderStats[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
 
+  // The Graph 索引的账户汇总统计（合约转账记录），与下方 RPC 结果互补
+  const { data: accountStatsData } = useAccountStatsQuery(searchAddress);
+  const accountStats = accountStatsData?.account;
+  const { data: tokenActivity } = useAccountTokenActivityQuery(searchAddress);
+  // 最近 7 个有活动的自然日（UTC）的发送/接收量，来自 graph-node 原生按天聚合
+  const { data: accountVolumes } = useAccountVolumeQuery(searchAddress, 'day', 7);
+  const sumVolume = (buckets?: { volume: string }[]): string =>
+    (buckets ?? []).reduce((sum, bucket) => sum + BigInt(bucket.volume), 0n).toString();
+  // 最近 30 个活跃日的累计快照，按时间正序绘制净流入曲线；柱高按净流入绝对值相对最大值缩放
+  const { data: snapshotData } = useAccountDaySnapshotsQuery(searchAddress, 30);
+  const daySnapshots = [...(snapshotData?.accountDaySnapshots ?? [])].reverse();
+  // 交易对手查询：输入完整地址后分别查询两个方向的账户对
+  const [counterparty, setCounterparty] = useState<string>('');
+  const isCounterpartyValid = /^0x[0-9a-fA-F]{40}$/.test(counterparty.trim());
+  const pairTarget = isCounterpartyValid ? counterparty.trim().toLowerCase() : '';
+  const { data: outgoingPairData, loading: outgoingPairLoading } = useAccountPairQuery(searchAddress, pairTarget);
+  const { data: incomingPairData, loading: incomingPairLoading } = useAccountPairQuery(pairTarget, searchAddress);
+  const maxAbsNetFlow = daySnapshots.reduce((max, snapshot) => {
+    const abs = BigInt(snapshot.netFlow) < 0n ? -BigInt(snapshot.netFlow) : BigInt(snapshot.netFlow);
+    return abs > max ? abs : max;
+  }, 1n);
+
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!address.trim()) return;
@@ -29,24 +48,32 @@ const AddressQuery: React.FC = () => {
     setLoading(true);
     setError('');
     setTransactions([]);
+    setProgress(null);
+    setServedBy([]);
+    setCounterparty('');
+    const startedAt = Date.now();
     
     try {
       const searchAddr = address.toLowerCase();
       setSearchAddress(searchAddr);
       
       console.log('Searching transactions for address:', searchAddr);
-      const txs = await ethereumService.getTransactionsByAddress(searchAddr, 20);
-      if (txs) {
-        setTransactions(txs);
-        
-        if (txs.length === 0) {
-          setError('未找到该地址的交易记录，可能该地址没有交易或需要搜索更多区块');
-        }
+      // 通过 TransferRecord 事件日志查询合约部署以来的完整历史
+      const txs = await ethereumService.getTransferRecordsByAddress(searchAddr, undefined, (scanned, total) =>
+        setProgress({ scanned, total })
+      );
+      setTransactions(txs);
+
+      if (txs.length === 0) {
+        setError('未找到该地址的合约转账记录');
       }
     } catch (err) {
       console.error('Address search error:', err);
       setError(err instanceof Error ? err.message : '查询失败');
     } finally {
+      setServedBy(ethereumService.getProviderStats().filter(
+        stats => stats.lastServedAt !== null && stats.lastServedAt >= startedAt
+      ));
       setLoading(false);
     }
   };
@@ -55,6 +82,9 @@ const AddressQuery: React.FC = () => {
     setAddress('');
     setSearchAddress('');
     setTransactions([]);
+    setProgress(null);
+    setServedBy([]);
+    setCounterparty('');
     setError('');
   };
 
@@ -165,7 +195,10 @@ const AddressQuery: React.FC = () => {
           borderRadius: '12px',
           marginBottom: '20px'
         }}>
-          <p style={{ margin: 0, color: '#666' }}>🔍 正在搜索最近1000个区块中的交易记录...</p>
+          <p style={{ margin: 0, color: '#666' }}>
+            🔍 正在通过事件日志搜索合约转账记录
+            {progress ? `（已扫描 ${progress.scanned} / ${progress.total} 个区块）` : '...'}
+          </p>
         </div>
       )}
 
@@ -182,6 +215,228 @@ const AddressQuery: React.FC = () => {
         </div>
       )}
 
+      {accountStats && (
+        <div style={{
+          background: 'white',
+          border: '1px solid #e0e0e0',
+          borderRadius: '12px',
+          padding: '20px',
+          marginBottom: '20px',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
+        }}>
+          <h4 style={{ margin: '0 0 15px 0', color: '#495057' }}>📊 合约转账统计 (The Graph)</h4>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))',
+            gap: '12px'
+          }}>
+            {[
+              { label: '📤 发送次数', value: accountStats.sentCount },
+              { label: '📥 接收次数', value: accountStats.receivedCount },
+              { label: '💸 累计发送 (ETH)', value: formatEther(accountStats.totalSent) },
+              { label: '💰 累计接收 (ETH)', value: formatEther(accountStats.totalReceived) },
+              { label: '⚖️ 净流入 (ETH)', value: formatEther(accountStats.netFlow) },
+              { label: '🤝 交易对手数', value: accountStats.uniqueCounterpartyCount },
+              { label: '🔁 自转账次数', value: accountStats.selfTransferCount },
+              { label: '♻️ 疑似重复提交', value: accountStats.possibleDuplicateCount },
+              { label: '📆 最近 7 个活跃日发送 (ETH)', value: formatEther(sumVolume(accountVolumes?.accountSentVolumes)) },
+              { label: '📆 最近 7 个活跃日接收 (ETH)', value: formatEther(sumVolume(accountVolumes?.accountReceivedVolumes)) },
+              { label: '🕐 首次活动', value: `#${accountStats.firstActivityBlock} · ${formatTimestamp(accountStats.firstActivityTimestamp)}` },
+              { label: '🕘 最近活动', value: `#${accountStats.lastActivityBlock} · ${formatTimestamp(accountStats.lastActivityTimestamp)}` }
+            ].map(item => (
+              <div key={item.label}>
+                <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px', fontWeight: '600' }}>
+                  {item.label}
+                </div>
+                <div style={{ fontSize: '15px', fontWeight: '600', color: '#2d3748' }}>
+                  {item.value}
+                </div>
+              </div>
+            ))}
+          </div>
+          {accountStats.counterparties.length > 0 && (
+            <div style={{ marginTop: '15px' }}>
+              <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px', fontWeight: '600' }}>
+                🔗 主要转出对手（按金额）
+              </div>
+              {accountStats.counterparties.map(pair => (
+                <div key={pair.id} onClick={() => setCounterparty(pair.to.address)} title="查询与该地址的往来" style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  gap: '10px',
+                  padding: '6px 0',
+                  borderBottom: '1px solid #f0f0f0',
+                  fontSize: '14px',
+                  cursor: 'pointer'
+                }}>
+                  <code>{truncateAddress(pair.to.address)}</code>
+                  <span style={{ color: '#4a5568' }}>
+                    {pair.transferCount} 笔 · {formatEther(pair.totalValue)} ETH
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div style={{ marginTop: '15px' }}>
+            <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px', fontWeight: '600' }}>
+              🔍 交易对手往来查询
+            </div>
+            <input
+              type="text"
+              value={counterparty}
+              onChange={(e) => setCounterparty(e.target.value)}
+              placeholder="输入对手地址 (0x...)"
+              style={{
+                width: '100%',
+                padding: '10px',
+                border: '2px solid #e9ecef',
+                borderRadius: '8px',
+                fontSize: '14px',
+                fontFamily: 'monospace',
+                boxSizing: 'border-box'
+              }}
+            />
+            {counterparty.trim() && !isCounterpartyValid && (
+              <div style={{ fontSize: '12px', color: '#c62828', marginTop: '6px' }}>请输入完整的 0x 地址</div>
+            )}
+            {isCounterpartyValid && (outgoingPairLoading || incomingPairLoading) && (
+              <div style={{ fontSize: '12px', color: '#666', marginTop: '6px' }}>⏳ 正在查询...</div>
+            )}
+            {isCounterpartyValid && !outgoingPairLoading && !incomingPairLoading && [
+              { label: '📤 转出', pair: outgoingPairData?.accountPair },
+              { label: '📥 转入', pair: incomingPairData?.accountPair }
+            ].map(({ label, pair }) => (
+              <div key={label} style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: '10px',
+                padding: '6px 0',
+                borderBottom: '1px solid #f0f0f0',
+                fontSize: '14px'
+              }}>
+                <span>{label}</span>
+                <span style={{ color: '#4a5568' }}>
+                  {pair
+                    ? `${pair.transferCount} 笔 · ${formatEther(pair.totalValue)} ETH · ${formatTimestamp(pair.firstTransferTimestamp)} ~ ${formatTimestamp(pair.lastTransferTimestamp)}`
+                    : '无往来记录'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {daySnapshots.length > 0 && (
+        <div style={{
+          background: 'white',
+          border: '1px solid #e0e0e0',
+          borderRadius: '12px',
+          padding: '20px',
+          marginBottom: '20px',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
+        }}>
+          <h4 style={{ margin: '0 0 15px 0', color: '#495057' }}>📈 累计净流入历史 (The Graph 每日快照)</h4>
+          <div style={{
+            display: 'flex',
+            alignItems: 'flex-end',
+            gap: '6px',
+            height: '160px',
+            overflowX: 'auto'
+          }}>
+            {daySnapshots.map(snapshot => {
+              const netFlow = BigInt(snapshot.netFlow);
+              const isInflow = netFlow >= 0n;
+              const height = Number(((isInflow ? netFlow : -netFlow) * 100n) / maxAbsNetFlow);
+              const date = new Date(parseInt(snapshot.dayStartTimestamp) * 1000);
+              return (
+                <div
+                  key={snapshot.id}
+                  title={`累计发送: ${snapshot.sentCount} 笔 / ${formatEther(snapshot.totalSent)} ETH\n累计接收: ${snapshot.receivedCount} 笔 / ${formatEther(snapshot.totalReceived)} ETH\n当天发送: ${snapshot.daySentCount} 笔 / ${formatEther(snapshot.daySent)} ETH\n当天接收: ${snapshot.dayReceivedCount} 笔 / ${formatEther(snapshot.dayReceived)} ETH`}
+                  style={{
+                    flex: '1 0 28px',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    justifyContent: 'flex-end',
+                    height: '100%'
+                  }}
+                >
+                  <div style={{
+                    width: '100%',
+                    height: `${Math.max(height, 2)}px`,
+                    background: isInflow ? '#28a745' : '#dc3545',
+                    borderRadius: '4px 4px 0 0'
+                  }} />
+                  <div style={{ fontSize: '11px', color: '#666', padding: '6px 0' }}>
+                    {`${date.getUTCMonth() + 1}/${date.getUTCDate()}`}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '8px' }}>
+            🟩 净流入 · 🟥 净流出（截至当天的累计值，仅显示有转账的日子）
+          </div>
+        </div>
+      )}
+
+      {tokenActivity && (tokenActivity.tokenBalances.length > 0 || tokenActivity.tokenTransfers.length > 0) && (
+        <div style={{
+          background: 'white',
+          border: '1px solid #e0e0e0',
+          borderRadius: '12px',
+          padding: '20px',
+          marginBottom: '20px',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
+        }}>
+          <h4 style={{ margin: '0 0 15px 0', color: '#495057' }}>🪙 ERC-20 代币 (The Graph)</h4>
+          {tokenActivity.tokenBalances.map(balance => (
+            <div key={balance.id} style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              gap: '10px',
+              padding: '6px 0',
+              borderBottom: '1px solid #f0f0f0',
+              fontSize: '14px'
+            }}>
+              <code>{truncateAddress(balance.token.address)}</code>
+              <span style={{ color: '#4a5568' }}>余额 {balance.balance}（区块 #{balance.lastUpdatedBlock}）</span>
+            </div>
+          ))}
+          {tokenActivity.tokenTransfers.length > 0 && (
+            <div style={{ marginTop: '15px' }}>
+              <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px', fontWeight: '600' }}>
+                🔄 最近代币转账
+              </div>
+              {tokenActivity.tokenTransfers.map(transfer => {
+                const isReceived = transfer.to?.address.toLowerCase() === searchAddress.toLowerCase();
+                // 铸造没有发送方，销毁没有接收方
+                const counterparty = isReceived ? transfer.from : transfer.to;
+                return (
+                  <div key={transfer.id} style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    gap: '10px',
+                    padding: '6px 0',
+                    borderBottom: '1px solid #f0f0f0',
+                    fontSize: '14px'
+                  }}>
+                    <span>
+                      {isReceived ? '📥' : '📤'} {counterparty
+                        ? <code>{truncateAddress(counterparty.address)}</code>
+                        : (isReceived ? '铸造' : '销毁')}
+                    </span>
+                    <span style={{ color: '#4a5568' }}>
+                      {transfer.value} @ <code>{truncateAddress(transfer.token.address)}</code> · {formatTimestamp(transfer.timestamp)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
       {searchAddress && !loading && transactions.length === 0 && !error && (
         <div style={{
           background: '#fff3cd',
@@ -209,13 +464,20 @@ const AddressQuery: React.FC = () => {
             textAlign: 'center'
           }}>
             <h3 style={{ margin: 0 }}>
-              📋 找到 {transactions.length} 条交易记录
+              📋 找到 {transactions.length} 条合约转账记录
             </h3>
             <p style={{ margin: '5px 0 0 0', opacity: 0.9 }}>
               地址: <code style={{ background: 'rgba(255,255,255,0.2)', padding: '2px 8px', borderRadius: '4px' }}>
                 {truncateAddress(searchAddress)}
               </code>
             </p>
+            {servedBy.length > 0 && (
+              <p style={{ margin: '5px 0 0 0', fontSize: '13px', opacity: 0.9 }}>
+                📡 响应节点: {servedBy.map(stats =>
+                  `${stats.name}${stats.latencyMs !== null ? ` (${Math.round(stats.latencyMs)}ms)` : ''}`
+                ).join(' · ')}
+              </p>
+            )}
           </div>
 
           <div style={{ overflowX: 'auto' }}>
@@ -233,6 +495,7 @@ const AddressQuery: React.FC = () => {
                   <th style={{ padding: '15px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>方向</th>
                   <th style={{ padding: '15px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>对方地址</th>
                   <th style={{ padding: '15px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>金额 (ETH)</th>
+                  <th style={{ padding: '15px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>备注</th>
                   <th style={{ padding: '15px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>区块号</th>
                   <th style={{ padding: '15px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>时间</th>
                   <th style={{ padding: '15px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>状态</th>
@@ -240,8 +503,8 @@ const AddressQuery: React.FC = () => {
               </thead>
               <tbody>
                 {transactions.map((tx, index) => {
-                  const isReceived = tx.to?.address.toLowerCase() === searchAddress.toLowerCase();
-                  const counterparty = isReceived ? tx.from.address : (tx.to?.address || '合约创建');
+                  const isReceived = tx.to.address.toLowerCase() === searchAddress.toLowerCase();
+                  const counterparty = isReceived ? tx.from.address : tx.to.address;
                   
                   return (
                     <tr key={tx.id} style={{ 
@@ -271,22 +534,21 @@ const AddressQuery: React.FC = () => {
                         </span>
                       </td>
                       <td style={{ padding: '15px', fontFamily: 'monospace', fontSize: '14px' }}>
-                        {counterparty === '合约创建' ? (
-                          <span style={{ color: '#6c757d', fontStyle: 'italic' }}>合约创建</span>
-                        ) : (
-                          <a 
-                            href={`https://sepolia.etherscan.io/address/${counterparty}`} 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            style={{ color: '#007bff', textDecoration: 'none' }}
-                          >
-                            {truncateAddress(counterparty)}
-                          </a>
-                        )}
+                        <a 
+                          href={`https://sepolia.etherscan.io/address/${counterparty}`} 
+                          target="_blank" 
+                          rel="noopener noreferrer"
+                          style={{ color: '#007bff', textDecoration: 'none' }}
+                        >
+                          {truncateAddress(counterparty)}
+                        </a>
                       </td>
                       <td style={{ padding: '15px', fontWeight: '600' }}>
                         {formatEther(tx.value)}
                       </td>
+                      <td style={{ padding: '15px', fontSize: '14px', color: '#495057', wordBreak: 'break-word' }}>
+                        {tx.message || <span style={{ color: '#adb5bd' }}>—</span>}
+                      </td>
                       <td style={{ padding: '15px' }}>
                         <a 
                           href={`https://sepolia.etherscan.io/block/${tx.blockNumber}`} 
@@ -18,7 +18,8 @@
 import React, { useState } from 'react';
 import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadContract } from 'wagmi';
 import { parseEther } from 'viem';
-import SimpleTransferContractABI from '../contracts/SimpleTransferContract.json';
+import { SIMPLE_TRANSFER_CONTRACT } from '../config/contract';
+import { useTransferContractQuery } from '../hooks/useTransactionQuery';
 
 /**
  * 智能合约配置对象
@@ -33,8 +34,8 @@ import SimpleTransferContractABI from '../contracts/SimpleTransferContract.json'
  * - 编码/解码合约调用数据
  */
 const CONTRACT_CONFIG = {
-  address: '0x830B796F55E6A3f86E924297e510B24192A0Ba1c' as `0x${string}`, // ✅ 实际部署的合约地址
-  abi: SimpleTransferContractABI,
+  address: SIMPLE_TRANSFER_CONTRACT.address, // ✅ 实际部署的合约地址
+  abi: SIMPLE_TRANSFER_CONTRACT.abi,
 };
 
 /**
@@ -87,6 +88,17 @@ const ContractDemo: React.FC<ContractDemoProps> = ({ onRecordSuccess }) => {
     functionName: 'totalRecords',  // 调用合约的 totalRecords() 函数
   });
 
+  /**
+   * 读取 The Graph 中本合约部署的索引统计
+   * 
+   * 🔍 用于与合约 totalRecords 对比：
+   * - 索引记录数落后于合约时，说明 Subgraph 仍在同步或漏记了事件
+   * - recordDrift 为 Subgraph 自身对账得到的偏差
+   * - 同一个 Subgraph 可能索引多份合约，这里只看当前合约地址
+   */
+  const { data: indexedData } = useTransferContractQuery(CONTRACT_CONFIG.address);
+  const indexedContract = indexedData?.transferContract;
+
   /**
    * 读取合约状态 - 用户记录数
    * 
@@ -274,6 +286,18 @@ const ContractDemo: React.FC<ContractDemoProps> = ({ onRecordSuccess }) => {
               {totalRecords?.toString() || '0'}
             </p>
           </div>
+          {/* 索引记录数显示 */}
+          <div>
+            <p style={{ margin: '0', fontSize: '14px', opacity: 0.9 }}>索引记录数 (The Graph)</p>
+            <p style={{ margin: '5px 0 0 0', fontSize: '24px', fontWeight: 'bold' }}>
+              {indexedContract?.totalRecords || '0'}
+            </p>
+            {indexedContract?.recordDrift && indexedContract.recordDrift !== '0' && (
+              <p style={{ margin: '5px 0 0 0', fontSize: '12px', opacity: 0.9 }}>
+                ⚠️ 对账偏差 {indexedContract.recordDrift}（区块 #{indexedContract.lastCheck?.blockNumber}）
+              </p>
+            )}
+          </div>
           {/* 用户记录数显示 */}
           <div>
             <p style={{ margin: '0', fontSize: '14px', opacity: 0.9 }}>我的记录数</p>
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import {
+  getDefaultRpcEndpoints,
+  getRpcEndpointConfig,
+  getRpcEndpointName,
+  isValidRpcUrl,
+  resetRpcEndpoints,
+  saveRpcEndpoints,
+  type RpcEndpoint,
+  type RpcEndpointSource
+} from '../config/rpcEndpoints';
+import { ethereumService } from '../services/ethereumService';
+
+// 编辑中的节点：请求头以 "名称: 值" 每行一条的文本形式编辑
+interface EndpointDraft {
+  url: string;
+  label: string;
+  headersText: string;
+}
+
+const SOURCE_LABELS: Record<RpcEndpointSource, string> = {
+  localStorage: '💾 本地设置',
+  env: '🔧 环境变量 VITE_SEPOLIA_RPC_ENDPOINTS',
+  builtin: '🌐 内置公共节点'
+};
+
+const toDraft = (endpoint: RpcEndpoint): EndpointDraft => ({
+  url: endpoint.url,
+  label: endpoint.label ?? '',
+  headersText: Object.entries(endpoint.headers ?? {}).map(([name, value]) => `${name}: ${value}`).join('\n')
+});
+
+/**
+ * 解析请求头文本
+ *
+ * @returns 请求头对象，存在无法解析的行时返回 null
+ */
+const parseHeaders = (text: string): Record<string, string> | null => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n').map(item => item.trim()).filter(Boolean)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return null;
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+};
+
+const RpcSettings: React.FC = () => {
+  const [{ endpoints, source }] = useState(getRpcEndpointConfig);
+  const [drafts, setDrafts] = useState<EndpointDraft[]>(() => endpoints.map(toDraft));
+  const [error, setError] = useState<string>('');
+
+  // 当前生效节点的健康统计，按地址对应到编辑行
+  const statsByUrl = new Map(ethereumService.getProviderStats().map(stats => [stats.url, stats]));
+
+  const updateDraft = (index: number, patch: Partial<EndpointDraft>) => {
+    setDrafts(drafts.map((draft, i) => i === index ? { ...draft, ...patch } : draft));
+  };
+
+  const moveUp = (index: number) => {
+    if (index === 0) return;
+    const next = [...drafts];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    setDrafts(next);
+  };
+
+  const handleSave = () => {
+    const problems: string[] = [];
+    const parsed = drafts.map((draft, index): RpcEndpoint => {
+      const headers = parseHeaders(draft.headersText);
+      if (!isValidRpcUrl(draft.url.trim())) problems.push(`第 ${index + 1} 个节点的地址无效`);
+      if (headers === null) problems.push(`第 ${index + 1} 个节点的请求头格式应为 "名称: 值"`);
+      return { url: draft.url.trim(), label: draft.label.trim() || undefined, headers: headers ?? undefined };
+    });
+
+    if (problems.length > 0) {
+      setError(problems.join('；'));
+      return;
+    }
+
+    // 节点在模块加载时读取，重新加载页面让 ethers 服务和 wagmi 传输层同时生效
+    saveRpcEndpoints(parsed);
+    window.location.reload();
+  };
+
+  const handleReset = () => {
+    resetRpcEndpoints();
+    window.location.reload();
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '10px',
+    border: '2px solid #e9ecef',
+    borderRadius: '8px',
+    fontSize: '14px',
+    boxSizing: 'border-box'
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '10px 20px',
+    border: 'none',
+    borderRadius: '25px',
+    cursor: 'pointer',
+    fontSize: '14px',
+    fontWeight: '600'
+  };
+
+  return (
+    <div>
+      <h2 style={{
+        textAlign: 'center',
+        marginBottom: '2rem',
+        color: '#333',
+        fontSize: '1.8rem'
+      }}>⚙️ RPC 节点设置</h2>
+
+      <div style={{
+        background: '#e8f5e8',
+        color: '#2d5a2d',
+        padding: '12px',
+        borderRadius: '8px',
+        marginBottom: '20px',
+        fontSize: '14px'
+      }}>
+        当前来源: <strong>{SOURCE_LABELS[source]}</strong>
+        <p style={{ margin: '6px 0 0 0' }}>
+          直接查询和钱包交互共用这份节点列表。直接查询综合延迟、失败率和区块高度选择节点，状况相近时靠前的节点优先；钱包交互按顺序使用。失败时自动切换到其他节点，保存后页面会重新加载。
+        </p>
+      </div>
+
+      {error && (
+        <div style={{
+          background: '#ffebee',
+          color: '#c62828',
+          padding: '15px',
+          borderRadius: '12px',
+          marginBottom: '20px',
+          border: '1px solid #ffcdd2'
+        }}>
+          <strong>❌ 错误:</strong> {error}
+        </div>
+      )}
+
+      {drafts.map((draft, index) => {
+        const stats = statsByUrl.get(draft.url.trim());
+        return (
+          <div key={index} style={{
+            background: 'white',
+            border: '1px solid #e0e0e0',
+            borderRadius: '12px',
+            padding: '16px',
+            marginBottom: '12px',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.05)'
+          }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+              <strong style={{ color: '#495057' }}>
+                #{index + 1} {draft.url && isValidRpcUrl(draft.url.trim())
+                  ? getRpcEndpointName({ url: draft.url.trim(), label: draft.label.trim() || undefined })
+                  : '新节点'}
+              </strong>
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'center', fontSize: '12px', color: '#666' }}>
+                {stats && stats.requestCount > 0 && (
+                  <span>
+                    {stats.circuitOpen ? '⛔ 熔断中' : '✅'}
+                    {stats.latencyMs !== null && ` ${Math.round(stats.latencyMs)}ms`}
+                    {` · 失败率 ${Math.round(stats.errorRate * 100)}%`}
+                  </span>
+                )}
+                <button type="button" onClick={() => moveUp(index)} disabled={index === 0}
+                  style={{ ...buttonStyle, padding: '4px 10px', background: '#f8f9fa', color: '#333' }}>
+                  ⬆️
+                </button>
+                <button type="button" onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                  style={{ ...buttonStyle, padding: '4px 10px', background: '#f8d7da', color: '#721c24' }}>
+                  🗑️
+                </button>
+              </div>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '10px', marginBottom: '10px' }}>
+              <input
+                type="text"
+                value={draft.url}
+                onChange={(e) => updateDraft(index, { url: e.target.value })}
+                placeholder="https://sepolia.infura.io/v3/..."
+                style={{ ...inputStyle, fontFamily: 'monospace' }}
+              />
+              <input
+                type="text"
+                value={draft.label}
+                onChange={(e) => updateDraft(index, { label: e.target.value })}
+                placeholder="显示名称（可选）"
+                style={inputStyle}
+              />
+            </div>
+            <textarea
+              value={draft.headersText}
+              onChange={(e) => updateDraft(index, { headersText: e.target.value })}
+              placeholder={'请求头（可选），每行一条，例如：\nAuthorization: Bearer <API Key>'}
+              rows={2}
+              style={{ ...inputStyle, fontFamily: 'monospace', resize: 'vertical' }}
+            />
+          </div>
+        );
+      })}
+
+      <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap', marginTop: '16px' }}>
+        <button type="button" onClick={() => setDrafts([...drafts, { url: '', label: '', headersText: '' }])}
+          style={{ ...buttonStyle, background: '#f8f9fa', color: '#333', border: '2px solid #e9ecef' }}>
+          ➕ 添加节点
+        </button>
+        <button type="button" onClick={handleSave} disabled={drafts.length === 0}
+          style={{ ...buttonStyle, background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)', color: 'white' }}>
+          💾 保存并重新加载
+        </button>
+        <button type="button" onClick={() => setDrafts(getDefaultRpcEndpoints().map(toDraft))}
+          style={{ ...buttonStyle, background: '#fff3cd', color: '#856404' }}>
+          📋 填入默认节点
+        </button>
+        <button type="button" onClick={handleReset} disabled={source !== 'localStorage'}
+          style={{ ...buttonStyle, background: '#f8d7da', color: '#721c24' }}>
+          ↩️ 清除本地设置
+        </button>
+      </div>
+
+      <p style={{ marginTop: '16px', fontSize: '12px', color: '#856404' }}>
+        ⚠️ 节点地址和请求头（包括 API Key）以明文保存在本浏览器的 localStorage 中，请勿在公共设备上保存私有密钥。
+      </p>
+    </div>
+  );
+};
+
+export default RpcSettings;
@@ -1,5 +1,6 @@
-import React from 'react';
-import { useTransactionsQuery, useMetaQuery } from '../hooks/useTransactionQuery';
+import React, { useState } from 'react';
+import { ALL_TRANSFER_KINDS, useTransactionsQuery, useMetaQuery, useTransferVolumeQuery, useDailyTransferStatsQuery, useHourlyTransferStatsQuery, useBlocksQuery, useMessageSearchQuery, useProtocolQuery, useLargeTransferAlertsQuery, useTaggedRecordsQuery, usePopularTagsQuery, useLeaderboardQuery } from '../hooks/useTransactionQuery';
+import type { AlertSeverity, LeaderboardMetric, LeaderboardWindow, TransferKind, VolumeInterval } from '../hooks/useTransactionQuery';
 // hex utils imports 已移除，因为当前不需要在此组件中使用
 
 interface Account {
@@ -17,17 +18,52 @@ interface Transaction {
   message?: string;        // 可选，不是所有交易都有附言
   blockNumber: string;
   timestamp: string;
+  batch?: { id: string; size: number } | null; // 所属批量转账，单笔转账为 null
+  batchIndex?: number | null;
+  kind?: TransferKind;     // 转账类型，RPC数据没有
+  tags?: { id: string }[];     // 备注中的 #标签
+  replyTo?: { id: string; message: string } | null; // 备注回复的记录
 }
 
-// Block 接口已被移除，因为 Schema 中没有定义 Block 实体
-
 interface TransactionListProps {
   enabled?: boolean;
 }
 
 const TransactionList: React.FC<TransactionListProps> = ({ enabled = true }) => {
-  const { data, loading, error } = useTransactionsQuery(20, 0, enabled);
+  // 转账记录可按类型（普通 / 自转账 / 转给合约）过滤
+  const [kindFilter, setKindFilter] = useState<TransferKind | 'ALL'>('ALL');
+  const { data, loading, error } = useTransactionsQuery(20, 0, enabled, kindFilter === 'ALL' ? ALL_TRANSFER_KINDS : [kindFilter]);
   const { data: metaData, error: metaError } = useMetaQuery(enabled);
+  // 转账活动图表：直接查询 graph-node 的原生聚合，可切换按小时/按天
+  const [volumeInterval, setVolumeInterval] = useState<VolumeInterval>('day');
+  const { data: volumeData } = useTransferVolumeQuery(volumeInterval, volumeInterval === 'day' ? 14 : 24, enabled);
+  // 唯一发送方/接收方数量无法由原生聚合得出，仍从 DailyTransferStat / HourlyTransferStat 读取
+  const { data: dailyStatsData } = useDailyTransferStatsQuery(14, enabled && volumeInterval === 'day');
+  const { data: hourlyStatsData } = useHourlyTransferStatsQuery(24, enabled && volumeInterval === 'hour');
+  const { data: blocksData } = useBlocksQuery(5, 0, enabled);
+  const { data: protocolData } = useProtocolQuery(enabled);
+  const protocol = protocolData?.protocol;
+  // 大额转账预警：由 Subgraph 在索引阶段按金额阈值分级，可选择最低预警级别
+  const [minSeverity, setMinSeverity] = useState<AlertSeverity>('LOW');
+  const { data: alertsData } = useLargeTransferAlertsQuery(minSeverity, 10, enabled);
+  // 发送方/接收方排行榜：可切换统计窗口和排序指标
+  const [leaderboardWindow, setLeaderboardWindow] = useState<LeaderboardWindow>('ALL_TIME');
+  const [leaderboardMetric, setLeaderboardMetric] = useState<LeaderboardMetric>('sentVolume');
+  const { data: leaderboardData } = useLeaderboardQuery(leaderboardWindow, leaderboardMetric, 10, enabled);
+
+  // 备注全文搜索：输入框内容与已提交的搜索词分离，提交时才查询
+  // 以 # 开头的搜索词按备注标签查询（MessageTag），其余走全文索引
+  const [searchInput, setSearchInput] = useState<string>('');
+  const [searchText, setSearchText] = useState<string>('');
+  const isTagSearch = searchText.startsWith('#');
+  const { data: fullTextData, loading: fullTextLoading, error: fullTextError } = useMessageSearchQuery(isTagSearch ? '' : searchText);
+  const { data: taggedData, loading: taggedLoading, error: taggedError } = useTaggedRecordsQuery(isTagSearch ? searchText : '');
+  const { data: popularTagsData } = usePopularTagsQuery(10, enabled);
+  const searchLoading = isTagSearch ? taggedLoading : fullTextLoading;
+  const searchError = isTagSearch ? taggedError : fullTextError;
+  const searchResults: Transaction[] | undefined = isTagSearch
+    ? (taggedData ? taggedData.messageTag?.records ?? [] : undefined)
+    : fullTextData?.transferMessageSearch;
 
   const formatEther = (wei: string): string => {
     const weiNum = BigInt(wei);
@@ -50,6 +86,61 @@ const TransactionList: React.FC<TransactionListProps> = ({ enabled = true }) =>
     return hash;
   };
 
+  // 聚合的 timestamp 为微秒时间戳
+  const formatBucket = (timestamp: string): string => {
+    const date = new Date(Math.floor(parseInt(timestamp) / 1000));
+    return volumeInterval === 'day'
+      ? `${date.getUTCMonth() + 1}/${date.getUTCDate()}`
+      : `${date.getUTCHours()}:00`;
+  };
+
+  // 聚合结果按时间正序展示，柱高按时间桶记录数相对最大值缩放
+  const volumeStats = [...(volumeData?.transferVolumes ?? [])].reverse();
+  const maxBucketCount = Math.max(1, ...volumeStats.map(stat => parseInt(stat.count)));
+
+  // 按时间桶起始秒数对应到聚合结果，用于在柱状图上显示唯一账户数
+  const uniqueAccountsByBucket = new Map<number, { senders: string; receivers: string }>([
+    ...(dailyStatsData?.dailyTransferStats ?? []).map(stat => [
+      parseInt(stat.dayStartTimestamp),
+      { senders: stat.uniqueSenderCount, receivers: stat.uniqueReceiverCount }
+    ] as const),
+    ...(hourlyStatsData?.hourlyTransferStats ?? []).map(stat => [
+      parseInt(stat.hourStartTimestamp),
+      { senders: stat.uniqueSenderCount, receivers: stat.uniqueReceiverCount }
+    ] as const)
+  ]);
+  const getUniqueAccounts = (timestamp: string) =>
+    uniqueAccountsByBucket.get(Math.floor(parseInt(timestamp) / 1_000_000));
+
+  // 预警阈值在 Subgraph 数据源中配置，级别标签不写金额，每条预警显示实际触发的阈值
+  const severityStyles: Record<AlertSeverity, { label: string; background: string; color: string }> = {
+    LOW: { label: '🟡 低', background: '#fff3cd', color: '#856404' },
+    MEDIUM: { label: '🟠 中', background: '#ffe5d0', color: '#a04000' },
+    HIGH: { label: '🔴 高', background: '#f8d7da', color: '#721c24' }
+  };
+
+  const leaderboardWindows: { key: LeaderboardWindow; label: string }[] = [
+    { key: 'ALL_TIME', label: '全部' },
+    { key: 'LAST_7_DAYS', label: '近 7 天' },
+    { key: 'LAST_30_DAYS', label: '近 30 天' }
+  ];
+  const leaderboardMetrics: { key: LeaderboardMetric; label: string }[] = [
+    { key: 'sentVolume', label: '📤 发送金额' },
+    { key: 'sentCount', label: '📤 发送次数' },
+    { key: 'receivedVolume', label: '📥 接收金额' },
+    { key: 'receivedCount', label: '📥 接收次数' }
+  ];
+  // 只展示该指标大于 0 的账户（例如按发送排序时不展示只接收过的账户）
+  const leaderboardEntries = (leaderboardData?.leaderboardEntries ?? []).filter(
+    entry => BigInt(entry[leaderboardMetric]) > 0n
+  );
+
+  const kindLabels: Record<TransferKind, string> = {
+    NORMAL: '普通转账',
+    SELF: '🔁 自转账',
+    CONTRACT_RECIPIENT: '📜 转给合约'
+  };
+
   // parseMessage 函数已移除，因为当前不需要在此组件中解析附言
 
   if (loading) return <p>加载最新交易中...</p>;
@@ -121,7 +212,7 @@ const TransactionList: React.FC<TransactionListProps> = ({ enabled = true }) =>
         </div>
       )}
       
-      {/* Show blocks data while transactions are not available */}
+      {/* Blocks containing transfer activity */}
       <div style={{ marginBottom: '40px', width: '100%' }}>
         <h3 style={{ 
           color: '#495057',
@@ -142,7 +233,56 @@ const TransactionList: React.FC<TransactionListProps> = ({ enabled = true }) =>
           }}>已同步</span>
         </h3>
         
-        {/* 区块查询已被移除，因为 Schema 中没有 Block 实体 */}
+        {/* 包含转账活动的最新区块 */}
+        {blocksData?.blocks && blocksData.blocks.length > 0 && (
+          <div style={{ overflowX: 'auto', marginBottom: '20px' }}>
+            <table style={{
+              width: '100%',
+              borderCollapse: 'collapse',
+              background: 'white',
+              borderRadius: '12px',
+              overflow: 'hidden',
+              boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
+            }}>
+              <thead>
+                <tr style={{ background: '#f8f9fa' }}>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>区块号</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>区块哈希</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>时间</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>Gas 使用</th>
+                  <th style={{ padding: '12px', textAlign: 'left', borderBottom: '2px solid #dee2e6', fontWeight: '600' }}>转账记录</th>
+                </tr>
+              </thead>
+              <tbody>
+                {blocksData.blocks.map((block, index) => (
+                  <tr key={block.id} style={{
+                    borderBottom: '1px solid #eee',
+                    background: index % 2 === 0 ? '#fff' : '#fafafa'
+                  }}>
+                    <td style={{ padding: '12px', fontFamily: 'monospace' }}>
+                      <a
+                        href={`https://sepolia.etherscan.io/block/${block.number}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        style={{ color: '#007bff', textDecoration: 'none' }}
+                      >
+                        #{block.number}
+                      </a>
+                    </td>
+                    <td style={{ padding: '12px', fontFamily: 'monospace', fontSize: '13px' }}>
+                      {`${block.hash.slice(0, 10)}...${block.hash.slice(-8)}`}
+                    </td>
+                    <td style={{ padding: '12px', fontSize: '14px' }}>{formatTimestamp(block.timestamp)}</td>
+                    <td style={{ padding: '12px', fontSize: '14px' }}>
+                      {block.gasUsed} / {block.gasLimit}
+                    </td>
+                    <td style={{ padding: '12px', fontWeight: '600' }}>{block.transferCount}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
         
         {/* 数据统计 */}
         {data?.transferRecords && data.transferRecords.length > 0 && (
@@ -157,7 +297,7 @@ const TransactionList: React.FC<TransactionListProps> = ({ enabled = true }) =>
               textAlign: 'center'
             }}>
               <div style={{ fontSize: '24px', fontWeight: 'bold', marginBottom: '5px' }}>
-                {data.transferRecords.length}
+                {protocol ? protocol.totalRecords : data.transferRecords.length}
               </div>
               <div style={{ fontSize: '14px', opacity: 0.9 }}>转账记录总数</div>
             </div>
@@ -169,7 +309,7 @@ const TransactionList: React.FC<TransactionListProps> = ({ enabled = true }) =>
               textAlign: 'center'
             }}>
               <div style={{ fontSize: '24px', fontWeight: 'bold', marginBottom: '5px' }}>
-                {new Set(data.transferRecords.map(tx => tx.from.address)).size}
+                {protocol ? protocol.uniqueSenderCount : new Set(data.transferRecords.map(tx => tx.from.address)).size}
               </div>
               <div style={{ fontSize: '14px', opacity: 0.9 }}>活跃发送地址</div>
             </div>
@@ -181,8 +321,10 @@ const TransactionList: React.FC<TransactionListProps> = ({ enabled = true }) =>
               textAlign: 'center'
             }}>
               <div style={{ fontSize: '24px', fontWeight: 'bold', marginBottom: '5px' }}>
-                {Math.round(data.transferRecords.reduce((sum, tx) => 
-                  sum + parseFloat(formatEther(tx.value)), 0) * 1000) / 1000
+                {protocol
+                  ? Math.round(parseFloat(formatEther(protocol.totalValue)) * 1000) / 1000
+                  : Math.round(data.transferRecords.reduce((sum, tx) => 
+                    sum + parseFloat(formatEther(tx.value)), 0) * 1000) / 1000
                 }
               </div>
               <div style={{ fontSize: '14px', opacity: 0.9 }}>总转账金额 (ETH)</div>
@@ -191,6 +333,388 @@ const TransactionList: React.FC<TransactionListProps> = ({ enabled = true }) =>
         )}
       </div>
 
+      {/* Transfer activity section */}
+      {volumeStats.length > 0 && (
+        <div style={{ marginBottom: '40px', width: '100%' }}>
+          <h3 style={{ 
+            color: '#495057',
+            fontSize: '1.4rem',
+            marginBottom: '1rem',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            flexWrap: 'wrap'
+          }}>
+            📈 转账活动 <span style={{ 
+              background: '#667eea',
+              color: 'white',
+              padding: '4px 8px',
+              borderRadius: '12px',
+              fontSize: '0.8rem',
+              fontWeight: '600'
+            }}>原生聚合</span>
+            {(['hour', 'day'] as VolumeInterval[]).map(interval => (
+              <button
+                key={interval}
+                onClick={() => setVolumeInterval(interval)}
+                style={{
+                  padding: '4px 12px',
+                  borderRadius: '12px',
+                  border: volumeInterval === interval ? 'none' : '1px solid #ced4da',
+                  background: volumeInterval === interval ? '#764ba2' : 'white',
+                  color: volumeInterval === interval ? 'white' : '#495057',
+                  fontSize: '0.8rem',
+                  cursor: 'pointer'
+                }}
+              >
+                {interval === 'day' ? '按天' : '按小时'}
+              </button>
+            ))}
+          </h3>
+          <div style={{
+            display: 'flex',
+            alignItems: 'flex-end',
+            gap: '8px',
+            height: '200px',
+            background: 'white',
+            border: '1px solid #e0e0e0',
+            borderRadius: '12px',
+            padding: '20px 20px 0 20px',
+            overflowX: 'auto'
+          }}>
+            {volumeStats.map(stat => {
+              const uniqueAccounts = getUniqueAccounts(stat.timestamp);
+              return (
+                <div
+                  key={stat.id}
+                  title={`记录数: ${stat.count}\n总金额: ${formatEther(stat.volume)} ETH\n最大单笔: ${formatEther(stat.maxValue ?? '0')} ETH` +
+                    (uniqueAccounts ? `\n发送方: ${uniqueAccounts.senders} / 接收方: ${uniqueAccounts.receivers}` : '')}
+                  style={{
+                    flex: '1 0 32px',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    justifyContent: 'flex-end',
+                    height: '100%'
+                  }}
+                >
+                  <div style={{ fontSize: '12px', color: '#4a5568', marginBottom: '4px' }}>
+                    {stat.count}
+                  </div>
+                  <div style={{
+                    width: '100%',
+                    height: `${(parseInt(stat.count) / maxBucketCount) * 110}px`,
+                    background: 'linear-gradient(180deg, #667eea 0%, #764ba2 100%)',
+                    borderRadius: '6px 6px 0 0'
+                  }} />
+                  <div style={{ fontSize: '11px', color: '#666', padding: '6px 0 0 0' }}>
+                    {formatBucket(stat.timestamp)}
+                  </div>
+                  <div style={{ fontSize: '10px', color: '#999', paddingBottom: '6px', whiteSpace: 'nowrap' }}>
+                    {uniqueAccounts ? `👤 ${uniqueAccounts.senders}/${uniqueAccounts.receivers}` : '\u00a0'}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Large transfer alerts section */}
+      <div style={{ marginBottom: '40px', width: '100%' }}>
+        <h3 style={{ 
+          color: '#495057',
+          fontSize: '1.4rem',
+          marginBottom: '1rem',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          flexWrap: 'wrap'
+        }}>
+          🚨 大额转账预警 <span style={{ 
+            background: '#dc3545',
+            color: 'white',
+            padding: '4px 8px',
+            borderRadius: '12px',
+            fontSize: '0.8rem',
+            fontWeight: '600'
+          }}>索引时分级</span>
+          {(['LOW', 'MEDIUM', 'HIGH'] as AlertSeverity[]).map(severity => (
+            <button
+              key={severity}
+              onClick={() => setMinSeverity(severity)}
+              style={{
+                padding: '4px 12px',
+                borderRadius: '12px',
+                border: minSeverity === severity ? 'none' : '1px solid #ced4da',
+                background: minSeverity === severity ? '#dc3545' : 'white',
+                color: minSeverity === severity ? 'white' : '#495057',
+                fontSize: '0.8rem',
+                cursor: 'pointer'
+              }}
+            >
+              {severityStyles[severity].label} 及以上
+            </button>
+          ))}
+        </h3>
+        {alertsData && alertsData.largeTransferAlerts.length === 0 ? (
+          <p style={{ color: '#666', margin: 0 }}>暂无符合条件的大额转账</p>
+        ) : (
+          <div style={{
+            background: 'white',
+            border: '1px solid #e0e0e0',
+            borderRadius: '12px',
+            overflow: 'hidden'
+          }}>
+            {alertsData?.largeTransferAlerts.map(alert => (
+              <div key={alert.id} style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '12px',
+                flexWrap: 'wrap',
+                padding: '12px 16px',
+                borderBottom: '1px solid #f0f0f0',
+                fontSize: '14px'
+              }}>
+                <span style={{
+                  padding: '4px 8px',
+                  borderRadius: '12px',
+                  fontSize: '12px',
+                  fontWeight: '600',
+                  background: severityStyles[alert.severity].background,
+                  color: severityStyles[alert.severity].color
+                }}>
+                  {severityStyles[alert.severity].label} (&gt;{parseFloat(formatEther(alert.threshold))} ETH)
+                </span>
+                <span style={{ fontWeight: '600', color: '#2d3748' }}>{formatEther(alert.value)} ETH</span>
+                <code style={{ fontSize: '12px' }}>{alert.from.address.slice(0, 10)}... → {alert.to.address.slice(0, 10)}...</code>
+                <span style={{ color: '#666', flex: 1 }}>{alert.record.message}</span>
+                <span style={{ color: '#666', fontSize: '12px' }}>
+                  #{alert.blockNumber} · {formatTimestamp(alert.timestamp)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Leaderboard section */}
+      <div style={{ marginBottom: '40px', width: '100%' }}>
+        <h3 style={{ 
+          color: '#495057',
+          fontSize: '1.4rem',
+          marginBottom: '1rem',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          flexWrap: 'wrap'
+        }}>
+          🏆 排行榜
+          {leaderboardWindows.map(item => (
+            <button
+              key={item.key}
+              onClick={() => setLeaderboardWindow(item.key)}
+              style={{
+                padding: '4px 12px',
+                borderRadius: '12px',
+                border: leaderboardWindow === item.key ? 'none' : '1px solid #ced4da',
+                background: leaderboardWindow === item.key ? '#f0ad4e' : 'white',
+                color: leaderboardWindow === item.key ? 'white' : '#495057',
+                fontSize: '0.8rem',
+                cursor: 'pointer'
+              }}
+            >
+              {item.label}
+            </button>
+          ))}
+        </h3>
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '15px' }}>
+          {leaderboardMetrics.map(item => (
+            <button
+              key={item.key}
+              onClick={() => setLeaderboardMetric(item.key)}
+              style={{
+                padding: '4px 12px',
+                borderRadius: '12px',
+                border: '1px solid #f0ad4e',
+                background: leaderboardMetric === item.key ? '#fff3cd' : 'white',
+                color: '#856404',
+                fontSize: '0.8rem',
+                fontWeight: leaderboardMetric === item.key ? '600' : 'normal',
+                cursor: 'pointer'
+              }}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+        {leaderboardEntries.length === 0 ? (
+          <p style={{ color: '#666', margin: 0 }}>该时间范围内暂无转账</p>
+        ) : (
+          <div style={{
+            background: 'white',
+            border: '1px solid #e0e0e0',
+            borderRadius: '12px',
+            overflow: 'hidden'
+          }}>
+            {leaderboardEntries.map((entry, index) => (
+              <div key={entry.id} style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '12px',
+                padding: '10px 16px',
+                borderBottom: '1px solid #f0f0f0',
+                fontSize: '14px'
+              }}>
+                <span style={{ width: '32px', fontWeight: '600', color: index < 3 ? '#f0ad4e' : '#6c757d' }}>
+                  {index < 3 ? ['🥇', '🥈', '🥉'][index] : `#${index + 1}`}
+                </span>
+                <code style={{ flex: 1, fontSize: '13px', wordBreak: 'break-all' }}>{entry.account.address}</code>
+                <span style={{ color: '#4a5568' }}>
+                  {leaderboardMetric.startsWith('sent')
+                    ? `${entry.sentCount} 笔 · ${formatEther(entry.sentVolume)} ETH`
+                    : `${entry.receivedCount} 笔 · ${formatEther(entry.receivedVolume)} ETH`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Message search section */}
+      <div style={{ marginBottom: '40px', width: '100%' }}>
+        <h3 style={{ 
+          color: '#495057',
+          fontSize: '1.4rem',
+          marginBottom: '1rem',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          flexWrap: 'wrap'
+        }}>
+          🔍 备注搜索 <span style={{ 
+            background: '#17a2b8',
+            color: 'white',
+            padding: '4px 8px',
+            borderRadius: '12px',
+            fontSize: '0.8rem',
+            fontWeight: '600'
+          }}>全文索引</span>
+        </h3>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSearchText(searchInput.trim());
+          }}
+          style={{ display: 'flex', gap: '10px', flexWrap: 'wrap', marginBottom: '15px' }}
+        >
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="输入备注关键词，多个词用空格分隔；#标签 按标签查询"
+            style={{
+              flex: 1,
+              minWidth: '240px',
+              padding: '12px',
+              border: '2px solid #e9ecef',
+              borderRadius: '12px',
+              fontSize: '15px',
+              outline: 'none'
+            }}
+          />
+          <button
+            type="submit"
+            disabled={!searchInput.trim()}
+            style={{
+              padding: '12px 20px',
+              background: searchInput.trim() ? 'linear-gradient(135deg, #17a2b8 0%, #138496 100%)' : '#6c757d',
+              color: 'white',
+              border: 'none',
+              borderRadius: '12px',
+              cursor: searchInput.trim() ? 'pointer' : 'not-allowed',
+              fontSize: '15px',
+              fontWeight: '600'
+            }}
+          >
+            搜索
+          </button>
+        </form>
+
+        {popularTagsData && popularTagsData.messageTags.length > 0 && (
+          <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '15px' }}>
+            {popularTagsData.messageTags.map(tag => (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => {
+                  setSearchInput(`#${tag.id}`);
+                  setSearchText(`#${tag.id}`);
+                }}
+                style={{
+                  padding: '4px 10px',
+                  borderRadius: '12px',
+                  border: '1px solid #17a2b8',
+                  background: searchText === `#${tag.id}` ? '#17a2b8' : 'white',
+                  color: searchText === `#${tag.id}` ? 'white' : '#17a2b8',
+                  fontSize: '0.8rem',
+                  cursor: 'pointer'
+                }}
+              >
+                #{tag.id} · {tag.recordCount}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {searchLoading && <p>搜索中...</p>}
+
+        {searchError && (
+          <div style={{
+            background: '#ffebee',
+            color: '#c62828',
+            padding: '10px',
+            borderRadius: '4px'
+          }}>
+            搜索错误: {searchError.message}
+          </div>
+        )}
+
+        {searchText && !searchLoading && searchResults && (
+          searchResults.length > 0 ? (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              {searchResults.map((tx, index) => (
+                <div key={tx.id} style={{
+                  background: 'white',
+                  border: '1px solid #e0e0e0',
+                  borderRadius: '8px',
+                  padding: '12px 16px',
+                  display: 'flex',
+                  gap: '12px',
+                  alignItems: 'baseline',
+                  flexWrap: 'wrap'
+                }}>
+                  <span style={{ fontWeight: '600', color: '#17a2b8' }}>#{index + 1}</span>
+                  <span style={{ flex: 1, minWidth: '200px', color: '#2c5282', wordBreak: 'break-word' }}>
+                    💬 {tx.message}
+                    {tx.replyTo && (
+                      <span style={{ display: 'block', fontSize: '12px', color: '#718096', marginTop: '4px' }}>
+                        ↩️ 回复: {tx.replyTo.message}
+                      </span>
+                    )}
+                  </span>
+                  <span style={{ fontSize: '13px', color: '#4a5568' }}>
+                    {formatEther(tx.value)} ETH · 区块 #{tx.blockNumber} · {formatTimestamp(tx.timestamp)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p style={{ color: '#666' }}>没有找到备注匹配 "{searchText}" 的转账记录</p>
+          )
+        )}
+      </div>
+
       {/* Transactions section */}
       <div style={{ width: '100%' }}>
         <h3 style={{ 
@@ -210,6 +734,23 @@ const TransactionList: React.FC<TransactionListProps> = ({ enabled = true }) =>
             fontSize: '0.8rem',
             fontWeight: '600'
           }}>合约记录</span>
+          {(['ALL', ...ALL_TRANSFER_KINDS] as (TransferKind | 'ALL')[]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => setKindFilter(kind)}
+              style={{
+                padding: '4px 12px',
+                borderRadius: '12px',
+                border: kindFilter === kind ? 'none' : '1px solid #ced4da',
+                background: kindFilter === kind ? '#28a745' : 'white',
+                color: kindFilter === kind ? 'white' : '#495057',
+                fontSize: '0.8rem',
+                cursor: 'pointer'
+              }}
+            >
+              {kind === 'ALL' ? '全部' : kindLabels[kind]}
+            </button>
+          ))}
         </h3>
         {loading && <p>加载最新交易中...</p>}
         
@@ -259,6 +800,30 @@ const TransactionList: React.FC<TransactionListProps> = ({ enabled = true }) =>
                     fontWeight: '600'
                   }}>
                     📋 交易哈希
+                    {tx.batch && (
+                      <span style={{
+                        marginLeft: '8px',
+                        background: '#fd7e14',
+                        color: 'white',
+                        padding: '2px 8px',
+                        borderRadius: '12px',
+                        fontSize: '11px'
+                      }}>
+                        📦 批量 {(tx.batchIndex ?? 0) + 1}/{tx.batch.size}
+                      </span>
+                    )}
+                    {tx.kind && tx.kind !== 'NORMAL' && (
+                      <span style={{
+                        marginLeft: '8px',
+                        background: '#6f42c1',
+                        color: 'white',
+                        padding: '2px 8px',
+                        borderRadius: '12px',
+                        fontSize: '11px'
+                      }}>
+                        {kindLabels[tx.kind]}
+                      </span>
+                    )}
                   </label>
                   <div style={{
                     fontFamily: 'monospace',
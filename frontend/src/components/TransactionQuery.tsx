@@ -23,7 +23,7 @@
 
 import React, { useState } from 'react';
 import { useTransactionQuery } from '../hooks/useTransactionQuery';  // The Graph GraphQL 查询 Hook
-import { ethereumService } from '../services/ethereumService';      // 直接 RPC 查询服务
+import { ethereumService, ProviderDisagreementError, QuorumUnavailableError, type ProviderStats } from '../services/ethereumService';      // 直接 RPC 查询服务
 import { truncateString } from '../utils/hexUtils'; // 工具函数
 
 /**
@@ -82,6 +82,11 @@ interface RpcTransactionData {
   recordId?: string;         // 适配The Graph字段
 }
 
+/**
+ * 多节点交叉验证时参与比较的 RPC 节点数
+ */
+const QUORUM_SIZE = 3;
+
 const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHashUsed }) => {
   // ==================== 本地状态管理 ====================
   
@@ -120,6 +125,12 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
    */
   const [dataSource, setDataSource] = useState<'graph' | 'rpc'>('rpc');
 
+  /**
+   * 多节点交叉验证开关（仅 RPC 模式）
+   * 🛡️ 开启后同一笔交易会发给 QUORUM_SIZE 个节点，过半结果一致才展示
+   */
+  const [crossCheck, setCrossCheck] = useState<boolean>(false);
+
   // ==================== 副作用处理 - 自动填充功能 ====================
   
   /**
@@ -200,6 +211,12 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
    */
   const [rpcError, setRpcError] = useState<string>('');
 
+  /**
+   * 本次 RPC 查询的响应节点
+   * 📡 查询结束后从 ethereumService.getProviderStats() 中筛选本次查询期间成功响应的节点
+   */
+  const [rpcServedBy, setRpcServedBy] = useState<ProviderStats[]>([]);
+
   // ==================== 数据源统一抽象 ====================
   
   /**
@@ -220,19 +237,21 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
    * - 便于后续添加新的数据源
    */
   // 适配新的 transferRecords 数据结构
+  const graphRecord = graphData?.transferRecords?.[0];
   const data = dataSource === 'graph' 
-    ? (graphData?.transferRecords?.[0] ? { 
+    ? (graphRecord ? { 
         transaction: {
-          ...graphData.transferRecords[0],
-          hash: graphData.transferRecords[0].transactionHash,
+          ...graphRecord,
+          hash: graphRecord.transactionHash,
           block: {
-            hash: 'N/A', // The Graph 数据中没有区块哈希
-            number: graphData.transferRecords[0].blockNumber
+            hash: graphRecord.block?.hash || 'N/A', // 旧版本 Subgraph 没有 Block 实体
+            number: graphRecord.blockNumber
           },
-          status: '1', // TransferRecord 只记录成功的交易
-          gasUsed: 'N/A', // The Graph 数据中没有 Gas 信息
-          gasPrice: 'N/A',
-          transactionIndex: 'N/A'
+          status: graphRecord.transaction?.status || '1', // TransferRecord 只记录成功的交易
+          // Gas 信息来自 Subgraph 的 Transaction 实体，收据不可用时回退为 N/A
+          gasUsed: graphRecord.transaction?.gasUsed || 'N/A',
+          gasPrice: graphRecord.transaction?.gasPrice || 'N/A',
+          transactionIndex: graphRecord.transaction?.transactionIndex || 'N/A'
         }
       } : null)
     : (rpcData ? { transaction: rpcData } : null);
@@ -306,11 +325,16 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
       setRpcLoading(true);     // 开始加载
       setRpcError('');         // 清空之前的错误
       setRpcData(null);        // 清空之前的数据
+      setRpcServedBy([]);      // 清空之前的响应节点
+      const startedAt = Date.now();
       
       try {
         console.log('Searching transaction via RPC:', cleanHash);
         // 调用以太坊服务查询交易
-        const transaction = await ethereumService.getTransactionByHash(cleanHash);
+        const transaction = await ethereumService.getTransactionByHash(
+          cleanHash,
+          { quorum: crossCheck ? QUORUM_SIZE : 1 }
+        );
         setRpcData(transaction);
         
         // 处理未找到交易的情况
@@ -320,8 +344,21 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
       } catch (err) {
         // 错误处理和用户友好提示
         console.error('RPC search error:', err);
-        setRpcError(err instanceof Error ? err.message : '查询失败');
+        if (err instanceof ProviderDisagreementError || err instanceof QuorumUnavailableError) {
+          // 列出每个节点返回的区块哈希或错误，便于判断哪个节点数据异常或无法访问
+          const details = err.responses.map(response => {
+            const result: RpcTransactionData | null = response.result ? JSON.parse(response.result) : null;
+            const outcome = response.error ?? (result ? `区块 ${result.block.hash}` : '未找到交易');
+            return `${response.name}: ${outcome}`;
+          });
+          setRpcError(`${err.message}（${details.join('；')}）`);
+        } else {
+          setRpcError(err instanceof Error ? err.message : '查询失败');
+        }
       } finally {
+        setRpcServedBy(ethereumService.getProviderStats().filter(
+          stats => stats.lastServedAt !== null && stats.lastServedAt >= startedAt
+        ));
         setRpcLoading(false);    // 结束加载状态
       }
     }
@@ -351,6 +388,7 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
     setSearchHash('');    // 清空搜索状态（会导致 Graph Hook 停止查询）
     setRpcData(null);     // 清空 RPC 数据
     setRpcError('');      // 清空 RPC 错误
+    setRpcServedBy([]);   // 清空响应节点
   };
 
   /**
@@ -381,6 +419,7 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
     // 清理切换数据源时的状态
     setRpcData(null);       // 清空 RPC 数据
     setRpcError('');        // 清空 RPC 错误
+    setRpcServedBy([]);     // 清空响应节点
     setSearchHash('');      // 重置搜索状态
   };
 
@@ -582,6 +621,15 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
         {dataSource === 'rpc' ? (
           <>
             ✅ <strong>直接查询模式</strong> - 从 Sepolia 网络实时获取数据，无需等待同步
+            <label style={{ display: 'block', marginTop: '8px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={crossCheck}
+                onChange={(e) => setCrossCheck(e.target.checked)}
+                style={{ marginRight: '6px' }}
+              />
+              🛡️ 多节点交叉验证（{QUORUM_SIZE} 个节点过半一致）
+            </label>
           </>
         ) : (
           <>
@@ -716,6 +764,27 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
             ✅ {dataSource === 'graph' ? 'The Graph 查询结果' : 'RPC 查询结果'}
           </h2>
 
+          {/* 响应节点（仅 RPC 查询） */}
+          {dataSource === 'rpc' && rpcServedBy.length > 0 && (
+            <div style={{ marginBottom: '16px', fontSize: '13px', color: '#666' }}>
+              📡 响应节点：
+              {rpcServedBy.map(stats => (
+                <span key={stats.url} style={{
+                  display: 'inline-block',
+                  marginLeft: '8px',
+                  padding: '2px 8px',
+                  borderRadius: '10px',
+                  background: '#e8f5e8',
+                  color: '#2d5a2d',
+                  fontFamily: 'monospace'
+                }}>
+                  {stats.name}
+                  {stats.latencyMs !== null && ` · ${Math.round(stats.latencyMs)}ms`}
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* 交易哈希 */}
           <div style={{ marginBottom: '16px' }}>
             <label style={{ 
@@ -917,7 +986,7 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
               }}>
                 {data.transaction.gasUsed === 'N/A' ? (
                   <span style={{ fontStyle: 'italic', color: '#999' }}>
-                    📊 The Graph 数据源不提供
+                    📊 The Graph 数据暂不可用
                   </span>
                 ) : (
                   data.transaction.gasUsed
@@ -942,7 +1011,7 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
               }}>
                 {data.transaction.gasPrice === 'N/A' ? (
                   <span style={{ fontStyle: 'italic', color: '#999' }}>
-                    📊 The Graph 数据源不提供
+                    📊 The Graph 数据暂不可用
                   </span>
                 ) : (
                   data.transaction.gasPrice
@@ -967,7 +1036,7 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
               }}>
                 {data.transaction.transactionIndex === 'N/A' ? (
                   <span style={{ fontStyle: 'italic', color: '#999' }}>
-                    📊 The Graph 数据源不提供
+                    📊 The Graph 数据暂不可用
                   </span>
                 ) : (
                   data.transaction.transactionIndex
@@ -999,7 +1068,7 @@ const TransactionQuery: React.FC<TransactionQueryProps> = ({ initialTxHash, onHa
             }}>
               {data.transaction.block.hash === 'N/A' ? (
                 <span style={{ fontStyle: 'italic', color: '#999' }}>
-                  📊 The Graph 数据源暂不提供区块哈希信息
+                  📊 The Graph 数据暂不可用
                 </span>
               ) : (
                 data.transaction.block.hash
@@ -0,0 +1,15 @@
+/**
+ * SimpleTransferContract 部署信息 - 前端各模块共用
+ *
+ * 📍 与 subgraph/networks.json 中 sepolia 网络的配置保持一致：
+ * - address: 已部署的合约地址
+ * - deployBlock: 合约部署区块，按日志查询历史时从这里开始扫描
+ */
+
+import SimpleTransferContractABI from '../contracts/SimpleTransferContract.json';
+
+export const SIMPLE_TRANSFER_CONTRACT = {
+  address: '0x830B796F55E6A3f86E924297e510B24192A0Ba1c' as `0x${string}`,
+  deployBlock: 9053891,
+  abi: SimpleTransferContractABI,
+};
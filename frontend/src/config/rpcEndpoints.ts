@@ -0,0 +1,190 @@
+/**
+ * RPC 节点注册表 - ethers 服务和 Wagmi 传输层共用的 Sepolia 节点列表
+ *
+ * 🎯 核心功能：
+ * - 统一维护节点地址和每个节点的认证请求头（如 API Key）
+ * - ethereumService 为每个节点创建 JsonRpcProvider，结合健康状况和列表顺序选择；wagmi 用 fallback 传输按顺序使用
+ *
+ * 🔀 配置来源（优先级从高到低）：
+ * 1. 设置面板保存在 localStorage 中的节点列表
+ * 2. Vite 环境变量 VITE_SEPOLIA_RPC_ENDPOINTS
+ * 3. 内置的公共节点
+ *
+ * 📝 环境变量格式（写在 frontend/.env.local 中，不会提交到仓库）：
+ * - 逗号分隔的地址：VITE_SEPOLIA_RPC_ENDPOINTS=https://a.example,https://b.example
+ * - 或 JSON 数组：VITE_SEPOLIA_RPC_ENDPOINTS=[{"url":"https://a.example","headers":{"x-api-key":"..."}}]
+ *
+ * ⚠️ 节点在模块加载时读取，修改设置后需要重新加载页面才会生效
+ */
+
+/**
+ * 单个 RPC 节点配置
+ */
+export interface RpcEndpoint {
+  url: string;
+  label?: string;                    // 显示名称，缺省时显示域名
+  headers?: Record<string, string>;  // 每次请求附带的请求头，如 Authorization / x-api-key
+}
+
+/**
+ * 当前节点列表的来源
+ */
+export type RpcEndpointSource = 'localStorage' | 'env' | 'builtin';
+
+// localStorage 中保存节点列表的键名
+const STORAGE_KEY = 'sepoliaRpcEndpoints';
+
+// 内置公共节点 - 无需 API Key，环境变量和用户设置都缺失时使用
+const BUILTIN_RPC_ENDPOINTS: RpcEndpoint[] = [
+  { url: 'https://ethereum-sepolia-rpc.publicnode.com', label: 'PublicNode' },  // 公共节点 - 无需 API Key，速度较快
+  { url: 'https://rpc.sepolia.org', label: 'Sepolia 官方' },                    // Sepolia 官方 RPC 节点
+  { url: 'https://ethereum-sepolia.publicnode.com', label: 'PublicNode 备用' }, // 另一个公共节点备选
+  { url: 'https://sepolia.gateway.tenderly.co', label: 'Tenderly' }             // Tenderly 网关，稳定性好
+];
+
+// ==================== 工具函数 ====================
+
+/**
+ * 校验并清理节点列表，丢弃地址无效的条目
+ *
+ * @param value - 待校验的数据（来自环境变量或 localStorage）
+ * @returns 有效的节点列表，数据格式不对时返回空数组
+ */
+function sanitizeEndpoints(value: unknown): RpcEndpoint[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item): RpcEndpoint[] => {
+    const entry = typeof item === 'string' ? { url: item } : item;
+    if (!entry || typeof entry.url !== 'string' || !isValidRpcUrl(entry.url.trim())) return [];
+
+    const headers = entry.headers && typeof entry.headers === 'object'
+      ? Object.fromEntries(
+          Object.entries(entry.headers as Record<string, unknown>)
+            .filter(([name, headerValue]) => name.trim() && typeof headerValue === 'string')
+            .map(([name, headerValue]) => [name.trim(), headerValue as string])
+        )
+      : undefined;
+
+    return [{
+      url: entry.url.trim(),
+      ...(typeof entry.label === 'string' && entry.label.trim() ? { label: entry.label.trim() } : {}),
+      ...(headers && Object.keys(headers).length > 0 ? { headers } : {})
+    }];
+  });
+}
+
+/**
+ * 判断地址是否为可用的 HTTP(S) RPC 地址
+ *
+ * @param url - 节点地址
+ */
+export function isValidRpcUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 读取环境变量中配置的节点
+ *
+ * @returns 节点列表，未配置或格式无效时返回空数组
+ */
+function loadEnvEndpoints(): RpcEndpoint[] {
+  const raw = import.meta.env.VITE_SEPOLIA_RPC_ENDPOINTS?.trim();
+  if (!raw) return [];
+
+  if (raw.startsWith('[')) {
+    try {
+      return sanitizeEndpoints(JSON.parse(raw));
+    } catch {
+      console.warn('VITE_SEPOLIA_RPC_ENDPOINTS 不是有效的 JSON，已忽略');
+      return [];
+    }
+  }
+  return sanitizeEndpoints(raw.split(','));
+}
+
+/**
+ * 读取设置面板保存的节点
+ *
+ * @returns 节点列表，未保存或数据损坏时返回空数组
+ */
+function loadStoredEndpoints(): RpcEndpoint[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? sanitizeEndpoints(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+}
+
+// ==================== 对外接口 ====================
+
+/**
+ * 获取默认节点（环境变量优先，其次内置节点），设置面板“恢复默认”时使用
+ */
+export function getDefaultRpcEndpoints(): RpcEndpoint[] {
+  const envEndpoints = loadEnvEndpoints();
+  return envEndpoints.length > 0 ? envEndpoints : BUILTIN_RPC_ENDPOINTS;
+}
+
+/**
+ * 获取当前生效的节点列表及其来源
+ */
+export function getRpcEndpointConfig(): { endpoints: RpcEndpoint[]; source: RpcEndpointSource } {
+  const stored = loadStoredEndpoints();
+  if (stored.length > 0) return { endpoints: stored, source: 'localStorage' };
+
+  const envEndpoints = loadEnvEndpoints();
+  if (envEndpoints.length > 0) return { endpoints: envEndpoints, source: 'env' };
+
+  return { endpoints: BUILTIN_RPC_ENDPOINTS, source: 'builtin' };
+}
+
+/**
+ * 获取当前生效的节点列表
+ */
+export function getRpcEndpoints(): RpcEndpoint[] {
+  return getRpcEndpointConfig().endpoints;
+}
+
+/**
+ * 保存用户设置的节点列表
+ *
+ * @param endpoints - 节点列表，无效条目会被丢弃
+ * @returns 实际保存的节点数；为 0 时清除设置，回退到默认节点
+ */
+export function saveRpcEndpoints(endpoints: RpcEndpoint[]): number {
+  const valid = sanitizeEndpoints(endpoints);
+  if (valid.length === 0) {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } else {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(valid));
+  }
+  return valid.length;
+}
+
+/**
+ * 清除用户设置，恢复为默认节点
+ */
+export function resetRpcEndpoints() {
+  window.localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * 节点的显示名称
+ *
+ * @param endpoint - 节点配置
+ * @returns label，缺省时为域名（不显示路径，避免泄露写在路径中的 API Key）
+ */
+export function getRpcEndpointName(endpoint: RpcEndpoint): string {
+  if (endpoint.label) return endpoint.label;
+  try {
+    return new URL(endpoint.url).host;
+  } catch {
+    return endpoint.url;
+  }
+}
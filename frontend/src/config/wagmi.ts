@@ -16,9 +16,10 @@
  * - 余额查询：实时获取账户余额
  */
 
-import { createConfig, http } from 'wagmi'
+import { createConfig, fallback, http } from 'wagmi'
 import { sepolia } from 'wagmi/chains'
 import { injected, metaMask } from 'wagmi/connectors'
+import { getRpcEndpoints } from './rpcEndpoints'
 
 /**
  * 创建 Wagmi 配置实例
@@ -70,21 +71,22 @@ export const wagmiConfig = createConfig({
    * 
    * 🌐 传输层说明：
    * - 使用 HTTP 传输协议
-   * - 连接到 Sepolia 测试网的公共 RPC 节点
-   * - 自动处理请求重试和错误恢复
+   * - 节点来自 rpcEndpoints.ts 中的共享注册表，与 ethereumService 使用同一份列表
+   * - fallback 按列表顺序使用节点，当前节点失败时自动切换到下一个
    * 
    * 📡 RPC 节点选择：
-   * - ethereum-sepolia-rpc.publicnode.com
-   *   * 免费公共节点
-   *   * 无需注册或 API Key
-   *   * 较好的稳定性和速度
+   * - 默认使用免费公共节点，无需注册或 API Key
+   * - 可通过 VITE_SEPOLIA_RPC_ENDPOINTS 环境变量或“节点设置”面板替换
+   * - 每个节点的认证请求头（如 API Key）通过 fetchOptions 附带
    * 
    * 💡 生产环境建议：
    * 使用付费 RPC 服务如 Infura, Alchemy 等
    * 提供更好的性能和可靠性
    */
   transports: {
-    [sepolia.id]: http('https://ethereum-sepolia-rpc.publicnode.com'),
+    [sepolia.id]: fallback(
+      getRpcEndpoints().map(endpoint => http(endpoint.url, { fetchOptions: { headers: endpoint.headers } }))
+    ),
   },
 })
 
@@ -36,6 +36,25 @@ interface Block {
   number: string;  // 区块号
 }
 
+/**
+ * 交易 Gas 信息接口
+ * 对应 The Graph Schema 中的 Transaction 实体
+ * 
+ * 📊 字段说明：
+ * - gasUsed / fee / status: 来自交易收据，收据不可用时为 null
+ * - inputSize: 交易 calldata 的字节数
+ */
+interface TransactionDetails {
+  gasPrice: string;
+  gasLimit: string;
+  gasUsed: string | null;
+  fee: string | null;
+  status: string | null;
+  transactionIndex: string;
+  nonce: string;
+  inputSize: number;
+}
+
 /**
  * 交易信息接口
  * 对应 The Graph Schema 中的 TransferRecord 实体
@@ -54,6 +73,10 @@ interface Block {
  * - timestamp: 交易时间戳
  * - status: 交易状态（1=成功，0=失败）
  * - transactionIndex: 在区块中的索引位置（RPC查询才有）
+ * - batch / batchIndex: 所属批量转账及批内序号（The Graph 查询才有）
+ * - transaction: 所在交易的 Gas、手续费、nonce 等信息（The Graph 查询才有）
+ * - tags / replyTo: 从备注解析出的 #标签 和 re:<recordId> 回复（The Graph 查询才有）
+ * - kind: 转账类型（普通 / 自转账 / 转给合约，The Graph 查询才有）
  */
 interface Transaction {
   id: string;
@@ -70,8 +93,28 @@ interface Transaction {
   timestamp: string;
   status?: string;        // 可选，适配RPC数据结构
   transactionIndex?: string; // 可选，RPC查询才有
+  batch?: { id: string; size: number } | null; // 所属批量转账（batchRecordTransfer），单笔为 null
+  batchIndex?: number | null;  // 在批量中的序号
+  transaction?: TransactionDetails; // 所在交易的 Gas 信息（The Graph 单笔查询）
+  tags?: { id: string }[];     // 备注中的 #标签
+  replyTo?: { id: string; message: string } | null; // 备注 re:<recordId> 回复的记录
+  kind?: TransferKind;         // 转账类型
 }
 
+/**
+ * 转账类型
+ * 对应 The Graph Schema 中的 TransferKind 枚举
+ * - NORMAL: 普通转账
+ * - SELF: 自转账（发送方与接收方相同）
+ * - CONTRACT_RECIPIENT: 接收方是合约（Subgraph 索引的合约或链上部署了代码的地址）
+ */
+export type TransferKind = 'NORMAL' | 'SELF' | 'CONTRACT_RECIPIENT';
+
+/**
+ * 全部转账类型，用于不过滤类型的查询
+ */
+export const ALL_TRANSFER_KINDS: TransferKind[] = ['NORMAL', 'SELF', 'CONTRACT_RECIPIENT'];
+
 /**
  * 单个转账记录查询结果接口
  */
@@ -86,28 +129,384 @@ interface TransactionsData {
   transferRecords: Transaction[];
 }
 
-// BlockData 接口已被移除，因为 Schema 中没有定义 Block 实体
-// /**
-//  * 区块数据接口
-//  * 用于显示区块基本信息
-//  */
-// interface BlockData {
-//   id: string;              // 区块哈希作为 ID
-//   number: string;          // 区块号
-//   hash: string;            // 区块哈希
-//   timestamp: string;       // 区块时间戳
-//   gasUsed: string;         // 区块 Gas 使用量
-//   gasLimit: string;        // 区块 Gas 限制
-//   transactionCount: string; // 区块包含的交易数量
-// }
+/**
+ * 备注全文搜索结果接口
+ * 结果已按相关度排序
+ */
+interface MessageSearchData {
+  transferMessageSearch: Transaction[];
+}
+
+/**
+ * 备注标签查询结果接口
+ * 对应 The Graph Schema 中的 MessageTag 实体
+ */
+interface TaggedRecordsData {
+  messageTag: {
+    id: string;
+    name: string;
+    recordCount: string;
+    records: Transaction[];
+  } | null;
+}
+
+/**
+ * 热门标签查询结果接口
+ */
+interface PopularTagsData {
+  messageTags: { id: string; recordCount: string }[];
+}
+
+/**
+ * 区块数据接口
+ * 对应 The Graph Schema 中的 Block 实体（只包含有转账活动的区块）
+ */
+interface BlockData {
+  id: string;              // 区块哈希作为 ID
+  number: string;          // 区块号
+  hash: string;            // 区块哈希
+  timestamp: string;       // 区块时间戳
+  gasUsed: string;         // 区块 Gas 使用量
+  gasLimit: string;        // 区块 Gas 限制
+  transferCount: string;   // 区块包含的转账记录数量
+}
 
 /**
  * 多个区块查询结果接口
  */
-// BlocksData 接口已被移除，因为 Schema 中没有定义 Block 实体
-// interface BlocksData {
-//   blocks: BlockData[];
-// }
+interface BlocksData {
+  blocks: BlockData[];
+}
+
+/**
+ * 账户统计接口
+ * 对应 The Graph Schema 中 Account 实体的聚合字段
+ * 
+ * 📊 字段说明：
+ * - sentCount / receivedCount: 发送与接收次数
+ * - totalSent / totalReceived: 累计发送与接收金额（wei 单位）
+ * - netFlow: 净流入金额（wei 单位，可能为负数）
+ * - first/lastActivity*: 首次与最近一次参与转账的区块号和时间戳
+ */
+interface AccountStats {
+  id: string;
+  address: string;
+  sentCount: string;
+  receivedCount: string;
+  totalSent: string;
+  totalReceived: string;
+  netFlow: string;
+  firstActivityBlock: string;
+  firstActivityTimestamp: string;
+  lastActivityBlock: string;
+  lastActivityTimestamp: string;
+  uniqueCounterpartyCount: string;
+  selfTransferCount: string;       // 自转账次数（不计入发送/接收统计）
+  possibleDuplicateCount: string;  // 疑似重复提交的转账次数
+  counterparties: AccountPair[];   // 按金额降序的主要转出对手
+}
+
+/**
+ * 账户对接口
+ * 对应 The Graph Schema 中的 AccountPair 实体（有向：from → to）
+ */
+interface AccountPair {
+  id: string;
+  from: Account;
+  to: Account;
+  transferCount: string;
+  totalValue: string;
+  firstTransferTimestamp: string;
+  lastTransferTimestamp: string;
+}
+
+/**
+ * 账户对查询结果接口
+ */
+interface AccountPairData {
+  accountPair: AccountPair | null;
+}
+
+/**
+ * ERC-20 代币余额接口
+ * 对应 The Graph Schema 中的 TokenBalance 实体
+ */
+interface TokenBalance {
+  id: string;
+  token: { id: string; address: string };
+  balance: string;              // 代币最小单位
+  lastUpdatedBlock: string;
+}
+
+/**
+ * ERC-20 代币转账接口
+ * 对应 The Graph Schema 中的 TokenTransfer 实体
+ */
+interface TokenTransfer {
+  id: string;
+  token: { id: string; address: string };
+  from: { address: string } | null;   // TokenHolder，铸造时为 null
+  to: { address: string } | null;     // TokenHolder，销毁时为 null
+  value: string;                // 代币最小单位
+  timestamp: string;
+  blockNumber: string;
+  transactionHash: string;
+}
+
+/**
+ * 账户代币活动查询结果接口
+ */
+interface AccountTokenActivityData {
+  tokenBalances: TokenBalance[];
+  tokenTransfers: TokenTransfer[];
+}
+
+/**
+ * 账户统计查询结果接口
+ */
+interface AccountStatsData {
+  account: AccountStats | null;
+}
+
+/**
+ * 协议全局统计接口
+ * 对应 The Graph Schema 中的 Protocol 单例实体
+ * 
+ * 📊 字段说明：
+ * - totalRecords / totalValue: 已索引的记录总数与总金额
+ * - unique*Count: 唯一账户、发送方、接收方数量
+ * - contractTotalRecords / recordDrift: 最近一次与合约 totalRecords 对账的结果
+ *   （recordDrift > 0 表示漏记事件，< 0 表示重复记录）
+ */
+interface ProtocolStats {
+  id: string;
+  totalRecords: string;
+  totalValue: string;
+  uniqueAccountCount: string;
+  uniqueSenderCount: string;
+  uniqueReceiverCount: string;
+  contractTotalRecords: string | null;
+  recordDrift: string | null;
+  driftCheckCount: string;
+  lastCheck: { blockNumber: string; timestamp: string } | null;
+}
+
+/**
+ * 协议统计查询结果接口
+ */
+interface ProtocolData {
+  protocol: ProtocolStats | null;
+}
+
+/**
+ * 合约部署统计接口
+ * 对应 The Graph Schema 中的 TransferContract 实体
+ * 
+ * 📊 字段说明：
+ * - name / registrant: 通过 SimpleTransferRegistry 登记时的名称和登记人（静态配置的合约为 null）
+ * - totalRecords: 该合约已索引的记录数
+ * - contractTotalRecords / recordDrift: 该合约最近一次对账的结果
+ */
+interface TransferContractStats {
+  id: string;
+  name: string | null;
+  registrant: string | null;
+  totalRecords: string;
+  totalValue: string;
+  contractTotalRecords: string | null;
+  recordDrift: string | null;
+  lastCheck: { blockNumber: string; timestamp: string } | null;
+}
+
+/**
+ * 合约部署统计查询结果接口
+ */
+interface TransferContractData {
+  transferContract: TransferContractStats | null;
+}
+
+/**
+ * 时间桶转账统计接口
+ * 对应 The Graph Schema 中的 DailyTransferStat / HourlyTransferStat 实体
+ *
+ * 📊 字段说明：
+ * - dayId / hourId: 时间桶序号（二选一）
+ * - dayStartTimestamp / hourStartTimestamp: 时间桶起始时间戳（二选一）
+ * - recordCount: 该时间桶内的转账记录数
+ * - totalValue / maxValue: 总金额与最大单笔金额（wei 单位）
+ * - uniqueSenderCount / uniqueReceiverCount: 唯一发送方/接收方数量
+ */
+interface TransferStat {
+  id: string;
+  recordCount: string;
+  totalValue: string;
+  maxValue: string;
+  uniqueSenderCount: string;
+  uniqueReceiverCount: string;
+}
+
+interface DailyTransferStat extends TransferStat {
+  dayId: number;
+  dayStartTimestamp: string;
+}
+
+interface HourlyTransferStat extends TransferStat {
+  hourId: number;
+  hourStartTimestamp: string;
+}
+
+/**
+ * 每日统计查询结果接口
+ */
+interface DailyTransferStatsData {
+  dailyTransferStats: DailyTransferStat[];
+}
+
+/**
+ * 每小时统计查询结果接口
+ */
+interface HourlyTransferStatsData {
+  hourlyTransferStats: HourlyTransferStat[];
+}
+
+/**
+ * 聚合时间粒度
+ * 对应 The Graph @aggregation 的 intervals
+ */
+export type VolumeInterval = 'hour' | 'day';
+
+/**
+ * 转账量聚合接口
+ * 对应 The Graph Schema 中的 TransferVolume / AccountSentVolume / AccountReceivedVolume 聚合
+ *
+ * 📊 字段说明：
+ * - timestamp: 时间桶起始时间（微秒时间戳字符串）
+ * - volume / maxValue: 总金额与最大单笔金额（wei 单位）
+ * - count: 该时间桶内的转账记录数
+ */
+interface TransferVolume {
+  id: string;
+  timestamp: string;
+  volume: string;
+  count: string;
+  maxValue?: string;  // 仅全局聚合提供
+}
+
+/**
+ * 全局转账量聚合查询结果接口
+ */
+interface TransferVolumesData {
+  transferVolumes: TransferVolume[];
+}
+
+/**
+ * 账户转账量聚合查询结果接口
+ */
+interface AccountVolumesData {
+  accountSentVolumes: TransferVolume[];
+  accountReceivedVolumes: TransferVolume[];
+}
+
+/**
+ * 账户每日快照接口
+ * 对应 The Graph Schema 中的 AccountDaySnapshot 实体
+ *
+ * 📊 字段说明：
+ * - sentCount / receivedCount / totalSent / totalReceived / netFlow: 截至该天的累计值
+ * - daySent* / dayReceived*: 当天的发送/接收次数和金额（wei 单位）
+ */
+interface AccountDaySnapshot {
+  id: string;
+  dayId: number;
+  dayStartTimestamp: string;
+  sentCount: string;
+  receivedCount: string;
+  totalSent: string;
+  totalReceived: string;
+  netFlow: string;
+  daySentCount: string;
+  dayReceivedCount: string;
+  daySent: string;
+  dayReceived: string;
+}
+
+/**
+ * 账户每日快照查询结果接口
+ */
+interface AccountDaySnapshotsData {
+  accountDaySnapshots: AccountDaySnapshot[];
+}
+
+/**
+ * 大额转账预警级别
+ * 对应 The Graph Schema 中的 AlertSeverity 枚举，三档阈值在 Subgraph 数据源的 alertTiersEth 中配置
+ * （默认 1 / 10 / 100 ETH），实际阈值见 LargeTransferAlert.threshold
+ */
+export type AlertSeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+
+/**
+ * 大额转账预警接口
+ * 对应 The Graph Schema 中的 LargeTransferAlert 实体
+ *
+ * 📊 字段说明：
+ * - severity: 预警级别，取金额超过的最高一档
+ * - threshold / value: 触发的阈值与转账金额（wei 单位）
+ */
+interface LargeTransferAlert {
+  id: string;
+  severity: AlertSeverity;
+  threshold: string;
+  from: { address: string };
+  to: { address: string };
+  value: string;
+  timestamp: string;
+  blockNumber: string;
+  transactionHash: string;
+  record: { message: string };
+}
+
+/**
+ * 大额转账预警查询结果接口
+ */
+interface LargeTransferAlertsData {
+  largeTransferAlerts: LargeTransferAlert[];
+}
+
+/**
+ * 排行榜统计窗口
+ * 对应 The Graph Schema 中的 LeaderboardWindow 枚举
+ */
+export type LeaderboardWindow = 'ALL_TIME' | 'LAST_7_DAYS' | 'LAST_30_DAYS';
+
+/**
+ * 排行榜排序指标
+ * 对应 LeaderboardEntry 上可排序的统计字段
+ */
+export type LeaderboardMetric = 'sentVolume' | 'sentCount' | 'receivedVolume' | 'receivedCount';
+
+/**
+ * 排行榜条目接口
+ * 对应 The Graph Schema 中的 LeaderboardEntry 实体
+ *
+ * 📊 字段说明：
+ * - sentCount / sentVolume: 窗口内的发送次数和金额（wei 单位）
+ * - receivedCount / receivedVolume: 窗口内的接收次数和金额（wei 单位）
+ */
+interface LeaderboardEntry {
+  id: string;
+  account: Account;
+  sentCount: string;
+  sentVolume: string;
+  receivedCount: string;
+  receivedVolume: string;
+}
+
+/**
+ * 排行榜查询结果接口
+ */
+interface LeaderboardData {
+  leaderboardEntries: LeaderboardEntry[];
+}
 
 /**
  * The Graph 元数据接口
@@ -129,7 +528,7 @@ interface MetaData {
  * 🔍 查询功能：
  * - 根据交易哈希获取完整的交易信息
  * - 包含发送方和接收方账户信息
- * - 包含所在区块的基本信息
+ * - 包含所在区块的基本信息，以及交易的 Gas、手续费和交易索引
  * 
  * 📝 参数：
  * - $hash: 交易哈希（Bytes! 类型，必须）
@@ -149,7 +548,26 @@ export const GET_TRANSACTION = gql`
       message
       timestamp
       blockNumber
+      block {
+        hash
+        number
+      }
       transactionHash
+      transaction {
+        gasPrice
+        gasLimit
+        gasUsed
+        fee
+        status
+        transactionIndex
+        nonce
+        inputSize
+      }
+      batch {
+        id
+        size
+      }
+      batchIndex
     }
   }
 `;
@@ -169,10 +587,23 @@ export const GET_TRANSACTION = gql`
  * - $orderDirection: 排序方向（默认 "desc" 降序）
  */
 export const GET_TRANSACTIONS = gql`
-  query GetTransactions($first: Int = 10, $skip: Int = 0, $orderBy: String = "blockNumber", $orderDirection: String = "desc") {
-    transferRecords(first: $first, skip: $skip, orderBy: $orderBy, orderDirection: $orderDirection) {
+  query GetTransactions(
+    $first: Int = 10
+    $skip: Int = 0
+    $orderBy: String = "blockNumber"
+    $orderDirection: String = "desc"
+    $kinds: [TransferKind!] = [NORMAL, SELF, CONTRACT_RECIPIENT]
+  ) {
+    transferRecords(
+      first: $first
+      skip: $skip
+      orderBy: $orderBy
+      orderDirection: $orderDirection
+      where: { kind_in: $kinds }
+    ) {
       id
       recordId
+      kind
       from {
         address
       }
@@ -184,110 +615,639 @@ export const GET_TRANSACTIONS = gql`
       timestamp
       blockNumber
       transactionHash
+      batch {
+        id
+        size
+      }
+      batchIndex
     }
   }
 `;
 
 /**
- * 区块信息查询
+ * 转账备注全文搜索
  * 
  * 🔍 查询功能：
- * - 获取最近的区块列表
- * - 按区块号降序排序（最新的在前面）
- * - 支持分页功能
+ * - 使用 Subgraph 的 transferMessageSearch 全文索引搜索 message 字段
+ * - 结果按匹配相关度排序
  * 
  * 📝 参数：
- * - $first: 返回区块数量（默认 10）
- * - $skip: 跳过区块数量（默认 0）
+ * - $text: 全文搜索表达式（由 toFullTextQuery 生成）
+ * - $first: 返回记录数量（默认 20）
  */
-// 注意：GET_BLOCKS 查询已被移除，因为 Subgraph Schema 中没有定义 Block 实体
-// export const GET_BLOCKS = gql`
-//   query GetBlocks($first: Int = 10, $skip: Int = 0) {
-//     blocks(first: $first, skip: $skip, orderBy: number, orderDirection: desc) {
-//       id
-//       number
-//       hash
-//       timestamp
-//       gasUsed
-//       gasLimit
-//       transactionCount
-//     }
-//   }
-// `;
+export const SEARCH_TRANSFER_MESSAGES = gql`
+  query SearchTransferMessages($text: String!, $first: Int = 20) {
+    transferMessageSearch(text: $text, first: $first) {
+      id
+      recordId
+      from {
+        address
+      }
+      to {
+        address
+      }
+      value
+      message
+      timestamp
+      blockNumber
+      transactionHash
+      tags {
+        id
+      }
+      replyTo {
+        id
+        message
+      }
+    }
+  }
+`;
 
 /**
- * The Graph 同步状态查询
+ * 按备注标签查询转账记录
  * 
  * 🔍 查询功能：
- * - 获取 The Graph 当前同步到的区块号
- * - 用于显示同步进度
- * - 判断数据的新鲜度
+ * - 查询 MessageTag 实体及带有该标签的转账记录，按时间降序
  * 
- * 💡 _meta 字段说明：
- * - 这是 The Graph 提供的特殊查询字段
- * - 包含 Subgraph 的元数据信息
- * - block.number 表示已同步到的最新区块号
+ * 📝 参数：
+ * - $tag: 标签名（小写，不含 #）
+ * - $first: 返回记录数量（默认 20）
  */
-export const GET_META = gql`
-  query GetMeta {
-    _meta {
-      block {
-        number
+export const GET_TAGGED_RECORDS = gql`
+  query GetTaggedRecords($tag: ID!, $first: Int = 20) {
+    messageTag(id: $tag) {
+      id
+      name
+      recordCount
+      records(first: $first, orderBy: timestamp, orderDirection: desc) {
+        id
+        recordId
+        from {
+          address
+        }
+        to {
+          address
+        }
+        value
+        message
+        timestamp
+        blockNumber
+        transactionHash
+        tags {
+          id
+        }
+        replyTo {
+          id
+          message
+        }
       }
     }
   }
 `;
 
-// ==================== 自定义 Hooks ====================
-
 /**
- * 单个交易查询 Hook
+ * 热门备注标签查询
  * 
- * 🎯 使用场景：
- * - 根据交易哈希查询具体交易信息
- * - 用于交易详情页面
- * - 验证交易是否存在
+ * 🔍 查询功能：
+ * - 按使用次数降序返回备注标签
  * 
  * 📝 参数：
- * - hash: 交易哈希字符串
+ * - $first: 返回标签数量（默认 10）
+ */
+export const GET_POPULAR_TAGS = gql`
+  query GetPopularTags($first: Int = 10) {
+    messageTags(first: $first, orderBy: recordCount, orderDirection: desc) {
+      id
+      recordCount
+    }
+  }
+`;
+
+/**
+ * 区块信息查询
  * 
- * 🔄 返回值：
- * - data: 交易数据（TransactionData 类型）
- * - loading: 加载状态
- * - error: 错误信息
+ * 🔍 查询功能：
+ * - 获取最近的包含转账活动的区块列表
+ * - 按区块号降序排序（最新的在前面）
+ * - 支持分页功能
  * 
- * 💡 优化特性：
- * - skip: !hash - 只有当 hash 存在时才执行查询
- * - 避免无效的查询请求
+ * 📝 参数：
+ * - $first: 返回区块数量（默认 10）
+ * - $skip: 跳过区块数量（默认 0）
  */
-export const useTransactionQuery = (hash: string) => {
-  return useQuery<TransactionData>(GET_TRANSACTION, {
-    variables: { hash },
-    skip: !hash,  // 优化：没有 hash 时跳过查询
-  });
-};
+export const GET_BLOCKS = gql`
+  query GetBlocks($first: Int = 10, $skip: Int = 0) {
+    blocks(first: $first, skip: $skip, orderBy: number, orderDirection: desc) {
+      id
+      number
+      hash
+      timestamp
+      gasUsed
+      gasLimit
+      transferCount
+    }
+  }
+`;
 
 /**
- * 多个交易查询 Hook
+ * 账户统计查询
  * 
- * 🎯 使用场景：
- * - 交易列表页面
- * - 最新交易展示
- * - 分页浏览交易记录
+ * 🔍 查询功能：
+ * - 根据地址获取账户的发送/接收统计
+ * - 无需扫描 transferRecordsSent / transferRecordsReceived
+ * 
+ * 📝 参数：
+ * - $id: 账户 ID（小写十六进制地址）
+ */
+export const GET_ACCOUNT_STATS = gql`
+  query GetAccountStats($id: ID!) {
+    account(id: $id) {
+      id
+      address
+      sentCount
+      receivedCount
+      totalSent
+      totalReceived
+      netFlow
+      firstActivityBlock
+      firstActivityTimestamp
+      lastActivityBlock
+      lastActivityTimestamp
+      uniqueCounterpartyCount
+      selfTransferCount
+      possibleDuplicateCount
+      counterparties(first: 5, orderBy: totalValue, orderDirection: desc) {
+        id
+        from {
+          address
+        }
+        to {
+          address
+        }
+        transferCount
+        totalValue
+        firstTransferTimestamp
+        lastTransferTimestamp
+      }
+    }
+  }
+`;
+
+/**
+ * 账户对查询
+ * 
+ * 🔍 查询功能：
+ * - 获取两个地址之间单一方向（from → to）的转账汇总
+ * - 用于合规审查，无需分页遍历 transferRecords
+ * 
+ * 📝 参数：
+ * - $id: 账户对 ID，格式 "发送方地址-接收方地址"（小写）
+ */
+export const GET_ACCOUNT_PAIR = gql`
+  query GetAccountPair($id: ID!) {
+    accountPair(id: $id) {
+      id
+      from {
+        address
+      }
+      to {
+        address
+      }
+      transferCount
+      totalValue
+      firstTransferTimestamp
+      lastTransferTimestamp
+    }
+  }
+`;
+
+/**
+ * 账户 ERC-20 代币活动查询
+ * 
+ * 🔍 查询功能：
+ * - 获取账户持有的代币余额
+ * - 获取账户最近的代币转账（发送或接收）
+ * 
+ * 📝 参数：
+ * - $account: TokenHolder ID（小写十六进制地址，与 Account ID 相同）
+ * - $first: 返回的转账数量（默认 10）
+ */
+export const GET_ACCOUNT_TOKEN_ACTIVITY = gql`
+  query GetAccountTokenActivity($account: String!, $first: Int = 10) {
+    tokenBalances(where: { holder: $account }) {
+      id
+      token {
+        id
+        address
+      }
+      balance
+      lastUpdatedBlock
+    }
+    tokenTransfers(
+      first: $first
+      orderBy: blockNumber
+      orderDirection: desc
+      where: { or: [{ from: $account }, { to: $account }] }
+    ) {
+      id
+      token {
+        id
+        address
+      }
+      from {
+        address
+      }
+      to {
+        address
+      }
+      value
+      timestamp
+      blockNumber
+      transactionHash
+    }
+  }
+`;
+
+/**
+ * 协议全局统计查询
+ * 
+ * 🔍 查询功能：
+ * - 获取 Protocol 单例的汇总统计与最近一次对账结果
+ */
+export const GET_PROTOCOL = gql`
+  query GetProtocol {
+    protocol(id: "protocol") {
+      id
+      totalRecords
+      totalValue
+      uniqueAccountCount
+      uniqueSenderCount
+      uniqueReceiverCount
+      contractTotalRecords
+      recordDrift
+      driftCheckCount
+      lastCheck {
+        blockNumber
+        timestamp
+      }
+    }
+  }
+`;
+
+/**
+ * 合约部署统计查询
+ * 
+ * 🔍 查询功能：
+ * - 获取单个 SimpleTransferContract 部署的索引统计与对账结果
+ * 
+ * 📝 参数：
+ * - $id: 合约地址（小写十六进制）
+ */
+export const GET_TRANSFER_CONTRACT = gql`
+  query GetTransferContract($id: ID!) {
+    transferContract(id: $id) {
+      id
+      name
+      registrant
+      totalRecords
+      totalValue
+      contractTotalRecords
+      recordDrift
+      lastCheck {
+        blockNumber
+        timestamp
+      }
+    }
+  }
+`;
+
+/**
+ * 每日转账统计查询
+ * 
+ * 🔍 查询功能：
+ * - 获取最近若干天的聚合统计，按天序号降序
+ * - 由 Subgraph 在索引阶段聚合，无需下载全部 TransferRecord
+ * 
+ * 📝 参数：
+ * - $first: 返回天数（默认 14）
+ */
+export const GET_DAILY_TRANSFER_STATS = gql`
+  query GetDailyTransferStats($first: Int = 14) {
+    dailyTransferStats(first: $first, orderBy: dayId, orderDirection: desc) {
+      id
+      dayId
+      dayStartTimestamp
+      recordCount
+      totalValue
+      maxValue
+      uniqueSenderCount
+      uniqueReceiverCount
+    }
+  }
+`;
+
+/**
+ * 每小时转账统计查询
+ * 
+ * 🔍 查询功能：
+ * - 获取最近若干小时的聚合统计，按小时序号降序
+ * 
+ * 📝 参数：
+ * - $first: 返回小时数（默认 24）
+ */
+export const GET_HOURLY_TRANSFER_STATS = gql`
+  query GetHourlyTransferStats($first: Int = 24) {
+    hourlyTransferStats(first: $first, orderBy: hourId, orderDirection: desc) {
+      id
+      hourId
+      hourStartTimestamp
+      recordCount
+      totalValue
+      maxValue
+      uniqueSenderCount
+      uniqueReceiverCount
+    }
+  }
+`;
+
+/**
+ * 全局转账量聚合查询
+ * 
+ * 🔍 查询功能：
+ * - 查询 graph-node 原生聚合（TransferVolume）的最近若干个时间桶，按时间降序
+ * - 聚合由 graph-node 根据 TransferDataPoint 时间序列自动计算
+ * 
+ * 📝 参数：
+ * - $interval: 时间粒度（hour / day）
+ * - $first: 返回时间桶数量（默认 14）
+ */
+export const GET_TRANSFER_VOLUMES = gql`
+  query GetTransferVolumes($interval: Aggregation_interval!, $first: Int = 14) {
+    transferVolumes(interval: $interval, first: $first, orderBy: timestamp, orderDirection: desc) {
+      id
+      timestamp
+      volume
+      count
+      maxValue
+    }
+  }
+`;
+
+/**
+ * 账户转账量聚合查询
+ * 
+ * 🔍 查询功能：
+ * - 同时查询某账户的发送量（AccountSentVolume）和接收量（AccountReceivedVolume）聚合
+ * 
+ * 📝 参数：
+ * - $account: 账户地址（小写）
+ * - $interval: 时间粒度（hour / day）
+ * - $first: 返回时间桶数量（默认 14）
+ */
+export const GET_ACCOUNT_VOLUMES = gql`
+  query GetAccountVolumes($account: String!, $interval: Aggregation_interval!, $first: Int = 14) {
+    accountSentVolumes(
+      interval: $interval
+      first: $first
+      where: { from: $account }
+      orderBy: timestamp
+      orderDirection: desc
+    ) {
+      id
+      timestamp
+      volume
+      count
+    }
+    accountReceivedVolumes(
+      interval: $interval
+      first: $first
+      where: { to: $account }
+      orderBy: timestamp
+      orderDirection: desc
+    ) {
+      id
+      timestamp
+      volume
+      count
+    }
+  }
+`;
+
+/**
+ * 账户每日快照查询
+ * 
+ * 🔍 查询功能：
+ * - 查询某账户最近若干个活跃日（UTC）的快照，按天降序
+ * - 每个快照包含截至该天的累计统计，一次查询即可绘制历史曲线
+ * 
+ * 📝 参数：
+ * - $account: 账户地址（小写）
+ * - $first: 返回快照数量（默认 30）
+ */
+export const GET_ACCOUNT_DAY_SNAPSHOTS = gql`
+  query GetAccountDaySnapshots($account: String!, $first: Int = 30) {
+    accountDaySnapshots(
+      first: $first
+      where: { account: $account }
+      orderBy: dayId
+      orderDirection: desc
+    ) {
+      id
+      dayId
+      dayStartTimestamp
+      sentCount
+      receivedCount
+      totalSent
+      totalReceived
+      netFlow
+      daySentCount
+      dayReceivedCount
+      daySent
+      dayReceived
+    }
+  }
+`;
+
+/**
+ * 大额转账预警查询
+ * 
+ * 🔍 查询功能：
+ * - 查询 Subgraph 在索引阶段生成的 LargeTransferAlert，按时间降序
+ * - 可按预警级别过滤，无需拉取全部转账记录自行比较金额
+ * 
+ * 📝 参数：
+ * - $severities: 要查询的预警级别
+ * - $first: 返回预警数量（默认 10）
+ */
+export const GET_LARGE_TRANSFER_ALERTS = gql`
+  query GetLargeTransferAlerts($severities: [AlertSeverity!]!, $first: Int = 10) {
+    largeTransferAlerts(
+      first: $first
+      where: { severity_in: $severities }
+      orderBy: timestamp
+      orderDirection: desc
+    ) {
+      id
+      severity
+      threshold
+      from {
+        address
+      }
+      to {
+        address
+      }
+      value
+      timestamp
+      blockNumber
+      transactionHash
+      record {
+        message
+      }
+    }
+  }
+`;
+
+/**
+ * 排行榜查询
+ * 
+ * 🔍 查询功能：
+ * - 查询某个统计窗口的 LeaderboardEntry，按指定指标降序
+ * - 滚动窗口（最近 7 / 30 天）取 windowEndDay 为当天的条目
+ * 
+ * 📝 参数：
+ * - $window: 统计窗口
+ * - $windowEndDay: 窗口最后一天的天序号（ALL_TIME 为 0）
+ * - $orderBy: 排序字段
+ * - $first: 返回条目数量（默认 10）
+ */
+export const GET_LEADERBOARD = gql`
+  query GetLeaderboard(
+    $window: LeaderboardWindow!
+    $windowEndDay: Int!
+    $orderBy: LeaderboardEntry_orderBy!
+    $first: Int = 10
+  ) {
+    leaderboardEntries(
+      first: $first
+      where: { window: $window, windowEndDay: $windowEndDay }
+      orderBy: $orderBy
+      orderDirection: desc
+    ) {
+      id
+      account {
+        address
+      }
+      sentCount
+      sentVolume
+      receivedCount
+      receivedVolume
+    }
+  }
+`;
+
+/**
+ * The Graph 同步状态查询
+ * 
+ * 🔍 查询功能：
+ * - 获取 The Graph 当前同步到的区块号
+ * - 用于显示同步进度
+ * - 判断数据的新鲜度
+ * 
+ * 💡 _meta 字段说明：
+ * - 这是 The Graph 提供的特殊查询字段
+ * - 包含 Subgraph 的元数据信息
+ * - block.number 表示已同步到的最新区块号
+ */
+export const GET_META = gql`
+  query GetMeta {
+    _meta {
+      block {
+        number
+      }
+    }
+  }
+`;
+
+// ==================== 工具函数 ====================
+
+/**
+ * 将用户输入转换为全文搜索表达式
+ * 
+ * 🔄 转换规则：
+ * - 去除全文搜索语法中的特殊字符（& | ! ( ) : * ' \ <）
+ * - 按空白拆分为多个词，每个词做前缀匹配（:*）
+ * - 多个词之间为"与"关系（&）
+ * 
+ * 💡 示例：
+ * - "coffee 午餐" → "coffee:* & 午餐:*"
+ * 
+ * @param input - 用户输入的搜索文本
+ * @returns 全文搜索表达式；没有有效词时返回空字符串
+ */
+export const toFullTextQuery = (input: string): string => {
+  return input
+    .replace(/[&|!():*'\\<]/g, ' ')
+    .split(/\s+/)
+    .filter(term => term.length > 0)
+    .map(term => `${term}:*`)
+    .join(' & ');
+};
+
+// ==================== 自定义 Hooks ====================
+
+/**
+ * 单个交易查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 根据交易哈希查询具体交易信息
+ * - 用于交易详情页面
+ * - 验证交易是否存在
+ * 
+ * 📝 参数：
+ * - hash: 交易哈希字符串
+ * 
+ * 🔄 返回值：
+ * - data: 交易数据（TransactionData 类型）
+ * - loading: 加载状态
+ * - error: 错误信息
+ * 
+ * 💡 优化特性：
+ * - skip: !hash - 只有当 hash 存在时才执行查询
+ * - 避免无效的查询请求
+ */
+export const useTransactionQuery = (hash: string) => {
+  return useQuery<TransactionData>(GET_TRANSACTION, {
+    variables: { hash },
+    skip: !hash,  // 优化：没有 hash 时跳过查询
+  });
+};
+
+/**
+ * 多个交易查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 交易列表页面
+ * - 最新交易展示
+ * - 分页浏览交易记录
  * 
  * 📝 参数：
  * - first: 查询记录数量（默认 10）
  * - skip: 跳过记录数量（默认 0，用于分页）
  * - enabled: 是否启用查询（默认 true）
+ * - kinds: 要查询的转账类型（默认全部类型）
  * 
  * 🔄 返回值：
  * - data: 交易列表数据（TransactionsData 类型）
  * - loading: 加载状态
  * - error: 错误信息
  */
-export const useTransactionsQuery = (first: number = 10, skip: number = 0, enabled: boolean = true) => {
+export const useTransactionsQuery = (
+  first: number = 10,
+  skip: number = 0,
+  enabled: boolean = true,
+  kinds: TransferKind[] = ALL_TRANSFER_KINDS
+) => {
   return useQuery<TransactionsData>(GET_TRANSACTIONS, {
-    variables: { first, skip },
+    variables: { first, skip, kinds },
     skip: !enabled,  // 条件查询：可通过 enabled 控制是否执行
   });
 };
@@ -310,13 +1270,299 @@ export const useTransactionsQuery = (first: number = 10, skip: number = 0, enabl
  * - loading: 加载状态
  * - error: 错误信息
  */
-// 注意：useBlocksQuery 已被移除，因为 Subgraph Schema 中没有定义 Block 实体
-// export const useBlocksQuery = (first: number = 10, skip: number = 0, enabled: boolean = true) => {
-//   return useQuery<BlocksData>(GET_BLOCKS, {
-//     variables: { first, skip },
-//     skip: !enabled,
-//   });
-// };
+export const useBlocksQuery = (first: number = 10, skip: number = 0, enabled: boolean = true) => {
+  return useQuery<BlocksData>(GET_BLOCKS, {
+    variables: { first, skip },
+    skip: !enabled,
+  });
+};
+
+/**
+ * 转账备注全文搜索 Hook
+ * 
+ * 🎯 使用场景：
+ * - 数据概览页按备注内容搜索转账记录
+ * 
+ * 📝 参数：
+ * - text: 用户输入的搜索文本（内部转换为全文搜索表达式）
+ * - first: 返回记录数量（默认 20）
+ * 
+ * 💡 优化特性：
+ * - 没有有效搜索词时跳过查询
+ */
+export const useMessageSearchQuery = (text: string, first: number = 20) => {
+  const query = toFullTextQuery(text);
+  return useQuery<MessageSearchData>(SEARCH_TRANSFER_MESSAGES, {
+    variables: { text: query, first },
+    skip: !query,
+  });
+};
+
+/**
+ * 按备注标签查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 数据概览页以 #标签 形式搜索备注
+ * 
+ * 📝 参数：
+ * - tag: 标签名（可带 #，内部转换为小写）
+ * - first: 返回记录数量（默认 20）
+ */
+export const useTaggedRecordsQuery = (tag: string, first: number = 20) => {
+  const id = tag.replace(/^#/, '').toLowerCase();
+  return useQuery<TaggedRecordsData>(GET_TAGGED_RECORDS, {
+    variables: { tag: id, first },
+    skip: !id,
+  });
+};
+
+/**
+ * 热门备注标签查询 Hook
+ * 
+ * 📝 参数：
+ * - first: 返回标签数量（默认 10）
+ * - enabled: 是否启用查询（默认 true）
+ */
+export const usePopularTagsQuery = (first: number = 10, enabled: boolean = true) => {
+  return useQuery<PopularTagsData>(GET_POPULAR_TAGS, {
+    variables: { first },
+    skip: !enabled,
+  });
+};
+
+/**
+ * 账户统计查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 地址查询页展示账户的汇总统计
+ * 
+ * 📝 参数：
+ * - address: 以太坊地址（内部统一转为小写作为实体 ID）
+ * 
+ * 💡 优化特性：
+ * - skip: !address - 没有地址时跳过查询
+ */
+export const useAccountStatsQuery = (address: string) => {
+  return useQuery<AccountStatsData>(GET_ACCOUNT_STATS, {
+    variables: { id: address.toLowerCase() },
+    skip: !address,
+  });
+};
+
+/**
+ * 账户对查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 查看某个地址向另一个地址转账的次数和金额
+ * 
+ * 📝 参数：
+ * - from: 发送方地址
+ * - to: 接收方地址
+ * 
+ * 💡 有向关系：反方向需要交换参数再查询一次
+ */
+export const useAccountPairQuery = (from: string, to: string) => {
+  return useQuery<AccountPairData>(GET_ACCOUNT_PAIR, {
+    variables: { id: `${from.toLowerCase()}-${to.toLowerCase()}` },
+    skip: !from || !to,
+  });
+};
+
+/**
+ * 账户 ERC-20 代币活动查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 地址查询页同时展示合约转账记录和代币流动
+ * 
+ * 📝 参数：
+ * - address: 以太坊地址
+ * - first: 返回的转账数量（默认 10）
+ */
+export const useAccountTokenActivityQuery = (address: string, first: number = 10) => {
+  return useQuery<AccountTokenActivityData>(GET_ACCOUNT_TOKEN_ACTIVITY, {
+    variables: { account: address.toLowerCase(), first },
+    skip: !address,
+  });
+};
+
+/**
+ * 协议全局统计查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 数据概览页的全局统计卡片
+ * - 与合约直接读取的 totalRecords 对比
+ * 
+ * 📝 参数：
+ * - enabled: 是否启用查询（默认 true）
+ */
+export const useProtocolQuery = (enabled: boolean = true) => {
+  return useQuery<ProtocolData>(GET_PROTOCOL, {
+    skip: !enabled,
+  });
+};
+
+/**
+ * 合约部署统计查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 与某个合约直接读取的 totalRecords 对比
+ * - 同一个 Subgraph 索引多份合约部署时查看单个部署的数据
+ * 
+ * 📝 参数：
+ * - address: 合约地址
+ * - enabled: 是否启用查询（默认 true）
+ */
+export const useTransferContractQuery = (address: string, enabled: boolean = true) => {
+  return useQuery<TransferContractData>(GET_TRANSFER_CONTRACT, {
+    variables: { id: address.toLowerCase() },
+    skip: !enabled || !address,
+  });
+};
+
+/**
+ * 每日转账统计查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 数据概览页的每日活跃度图表
+ * 
+ * 📝 参数：
+ * - first: 查询天数（默认 14）
+ * - enabled: 是否启用查询（默认 true）
+ */
+export const useDailyTransferStatsQuery = (first: number = 14, enabled: boolean = true) => {
+  return useQuery<DailyTransferStatsData>(GET_DAILY_TRANSFER_STATS, {
+    variables: { first },
+    skip: !enabled,
+  });
+};
+
+/**
+ * 每小时转账统计查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 短时间范围内的活跃度曲线
+ * 
+ * 📝 参数：
+ * - first: 查询小时数（默认 24）
+ * - enabled: 是否启用查询（默认 true）
+ */
+export const useHourlyTransferStatsQuery = (first: number = 24, enabled: boolean = true) => {
+  return useQuery<HourlyTransferStatsData>(GET_HOURLY_TRANSFER_STATS, {
+    variables: { first },
+    skip: !enabled,
+  });
+};
+
+/**
+ * 全局转账量聚合查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 数据概览页的转账活动图表（按小时或按天）
+ * 
+ * 📝 参数：
+ * - interval: 时间粒度（默认 day）
+ * - first: 时间桶数量（默认 14）
+ * - enabled: 是否启用查询（默认 true）
+ */
+export const useTransferVolumeQuery = (
+  interval: VolumeInterval = 'day',
+  first: number = 14,
+  enabled: boolean = true
+) => {
+  return useQuery<TransferVolumesData>(GET_TRANSFER_VOLUMES, {
+    variables: { interval, first },
+    skip: !enabled,
+  });
+};
+
+/**
+ * 账户转账量聚合查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 账户详情中的发送/接收趋势
+ * 
+ * 📝 参数：
+ * - address: 账户地址
+ * - interval: 时间粒度（默认 day）
+ * - first: 时间桶数量（默认 14）
+ */
+export const useAccountVolumeQuery = (
+  address: string,
+  interval: VolumeInterval = 'day',
+  first: number = 14
+) => {
+  return useQuery<AccountVolumesData>(GET_ACCOUNT_VOLUMES, {
+    variables: { account: address.toLowerCase(), interval, first },
+    skip: !address,
+  });
+};
+
+/**
+ * 账户每日快照查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 地址查询页的账户历史活动图表
+ * 
+ * 📝 参数：
+ * - address: 账户地址
+ * - first: 快照数量（默认 30）
+ */
+export const useAccountDaySnapshotsQuery = (address: string, first: number = 30) => {
+  return useQuery<AccountDaySnapshotsData>(GET_ACCOUNT_DAY_SNAPSHOTS, {
+    variables: { account: address.toLowerCase(), first },
+    skip: !address,
+  });
+};
+
+/**
+ * 大额转账预警查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 数据概览页的大额转账预警面板
+ * 
+ * 📝 参数：
+ * - minSeverity: 最低预警级别（默认 LOW，即全部预警）
+ * - first: 预警数量（默认 10）
+ * - enabled: 是否启用查询（默认 true）
+ */
+export const useLargeTransferAlertsQuery = (
+  minSeverity: AlertSeverity = 'LOW',
+  first: number = 10,
+  enabled: boolean = true
+) => {
+  const levels: AlertSeverity[] = ['LOW', 'MEDIUM', 'HIGH'];
+  return useQuery<LargeTransferAlertsData>(GET_LARGE_TRANSFER_ALERTS, {
+    variables: { severities: levels.slice(levels.indexOf(minSeverity)), first },
+    skip: !enabled,
+  });
+};
+
+/**
+ * 排行榜查询 Hook
+ * 
+ * 🎯 使用场景：
+ * - 数据概览页的发送方/接收方排行榜
+ * 
+ * 📝 参数：
+ * - timeWindow: 统计窗口（默认 ALL_TIME）
+ * - metric: 排序指标（默认 sentVolume）
+ * - first: 条目数量（默认 10）
+ * - enabled: 是否启用查询（默认 true）
+ * 
+ * 💡 滚动窗口按当前 UTC 日期计算 windowEndDay
+ */
+export const useLeaderboardQuery = (
+  timeWindow: LeaderboardWindow = 'ALL_TIME',
+  metric: LeaderboardMetric = 'sentVolume',
+  first: number = 10,
+  enabled: boolean = true
+) => {
+  const windowEndDay = timeWindow === 'ALL_TIME' ? 0 : Math.floor(Date.now() / 1000 / 86400);
+  return useQuery<LeaderboardData>(GET_LEADERBOARD, {
+    variables: { window: timeWindow, windowEndDay, orderBy: metric, first },
+    skip: !enabled,
+  });
+};
 
 /**
  * The Graph 同步状态查询 Hook
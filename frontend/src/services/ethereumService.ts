@@ -1,4 +1,6 @@
 import { ethers } from 'ethers';
+import { SIMPLE_TRANSFER_CONTRACT } from '../config/contract';
+import { getRpcEndpointName, getRpcEndpoints, type RpcEndpoint } from '../config/rpcEndpoints';
 
 /**
  * 以太坊服务类 - 提供与 Sepolia 测试网络直接交互的功能
@@ -16,35 +18,399 @@ import { ethers } from 'ethers';
  * - 备用方案：当 The Graph 服务不可用时的备选方案
  */
 
-// Sepolia 测试网 RPC 端点配置 - 多节点确保高可用性
-const SEPOLIA_RPC_URLS = [
-  'https://ethereum-sepolia-rpc.publicnode.com',  // 公共节点 - 无需 API Key，速度较快
-  'https://rpc.sepolia.org',                      // Sepolia 官方 RPC 节点
-  'https://ethereum-sepolia.publicnode.com',      // 另一个公共节点备选
-  'https://sepolia.gateway.tenderly.co'           // Tenderly 网关，稳定性好
-];
+// 单次 eth_getLogs 查询的区块跨度 - 公共节点普遍限制单次查询范围，过大会被拒绝
+const LOG_CHUNK_SIZE = 10000;
+
+// 默认的请求并发上限 - 同时进行的区块/收据/日志请求数，过高容易触发公共节点限流
+const DEFAULT_CONCURRENCY = 8;
+
+// 默认的 JSON-RPC 批次大小 - 同一事件循环内发出的请求合并为一个 HTTP 批量请求
+const DEFAULT_BATCH_MAX_COUNT = 20;
+
+// 批次聚合等待时间（毫秒）- 在此时间内发出的请求会被合并到同一批次
+const BATCH_STALL_TIME = 10;
+
+// ==================== 节点健康度配置 ====================
+
+// 延迟和失败率滑动平均的平滑系数 - 越大越偏重最近的请求
+const HEALTH_SMOOTHING = 0.3;
+
+// 尚无延迟数据的节点按此延迟（毫秒）估算权重
+const UNKNOWN_LATENCY_MS = 1000;
+
+// 请求超时范围（毫秒）- 按节点平均延迟的 TIMEOUT_LATENCY_FACTOR 倍动态调整
+const MIN_REQUEST_TIMEOUT_MS = 3000;
+const MAX_REQUEST_TIMEOUT_MS = 10000;
+const TIMEOUT_LATENCY_FACTOR = 5;
+
+// 熔断：连续失败达到阈值后，冷却期内不再选择该节点
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 30000;
+
+// 区块高度落后超过此值的节点大幅降低权重，避免读到过期数据
+const MAX_BLOCK_LAG = 3;
+const LAGGING_WEIGHT_FACTOR = 0.1;
+
+// 列表顺序优先级：节点在 RPC 列表中每靠后一位，权重乘以此系数
+const PRIORITY_DECAY = 0.5;
+
+// 用于解码 TransferRecord 事件日志的合约接口
+const transferContractInterface = new ethers.Interface(SIMPLE_TRANSFER_CONTRACT.abi);
+const TRANSFER_RECORD_TOPIC = transferContractInterface.getEvent('TransferRecord')!.topicHash;
+
+/**
+ * 从合约事件日志中解析出的转账记录
+ *
+ * 💡 字段与 getTransactionsByAddress 的返回值兼容，另外附带备注和合约 recordId
+ */
+export interface TransferRecordLog {
+  id: string;                    // 交易哈希-日志索引，同一交易中的多条记录互不冲突
+  hash: string;
+  from: { address: string };
+  to: { address: string };
+  value: string;                 // 转账金额（wei 单位）
+  message: string;               // 转账备注
+  recordId: string;              // 合约生成的记录ID
+  blockNumber: string;
+  timestamp: string;             // 事件中记录的区块时间戳
+  status: string;                // 只有成功的交易才会产生日志，恒为 '1'
+  transactionIndex: string;
+  logIndex: string;
+}
+
+/**
+ * 以太坊服务配置
+ */
+export interface EthereumServiceOptions {
+  endpoints?: RpcEndpoint[];  // RPC 节点列表（默认读取 config/rpcEndpoints 中的共享注册表）
+  concurrency?: number;    // 同时进行的请求数上限（默认 DEFAULT_CONCURRENCY）
+  batchMaxCount?: number;  // 单个 JSON-RPC 批次最多包含的请求数，1 表示关闭批处理
+}
+
+/**
+ * RPC 节点健康统计 - 由 getProviderStats() 返回，供 UI 展示
+ */
+export interface ProviderStats {
+  url: string;
+  name: string;                      // 节点显示名称
+  latencyMs: number | null;          // 成功请求耗时的滑动平均，尚无数据时为 null
+  errorRate: number;                 // 失败率的滑动平均（0-1）
+  requestCount: number;
+  errorCount: number;
+  blockNumber: number | null;        // 该节点最近报告的区块高度
+  blockLag: number | null;           // 落后于所有节点中已知最高区块的区块数
+  circuitOpen: boolean;              // 是否处于熔断冷却期
+  circuitOpenUntil: number | null;   // 熔断结束时间（毫秒时间戳）
+  lastServedAt: number | null;       // 最近一次成功响应的时间（毫秒时间戳）
+  lastError: string | null;
+}
+
+/**
+ * 单个节点在多节点交叉验证中的响应
+ */
+export interface ProviderResponse {
+  url: string;
+  name: string;            // 节点显示名称
+  result: string | null;   // 标准化后的结果（JSON），请求失败时为 null
+  error: string | null;    // 请求失败时的错误信息
+}
+
+/**
+ * 读取请求的选项
+ */
+export interface ReadOptions {
+  quorum?: number;   // 交叉验证的节点数，大于 1 时要求过半节点返回相同结果
+}
+
+/**
+ * 多节点交叉验证失败 - 应答的节点足够，但没有过半节点返回相同的结果
+ *
+ * 💡 responses 包含每个节点的原始响应，divergentUrls 为返回了不同结果的节点（请求失败的节点不计入）
+ */
+export class ProviderDisagreementError extends Error {
+  readonly responses: ProviderResponse[];
+  readonly divergentUrls: string[];
+
+  constructor(responses: ProviderResponse[], divergentUrls: string[], agreeing: number) {
+    const answered = responses.filter(response => response.result !== null).length;
+    const names = responses.filter(response => divergentUrls.includes(response.url)).map(response => response.name);
+    super(`${answered} 个应答的 RPC 节点中只有 ${agreeing} 个结果一致，未达到 ${responses.length} 个节点的多数。分歧节点: ${names.join(', ')}`);
+    this.name = 'ProviderDisagreementError';
+    this.responses = responses;
+    this.divergentUrls = divergentUrls;
+  }
+}
+
+/**
+ * 多节点交叉验证无法进行 - 成功应答的节点数不足多数，结果无从比较
+ *
+ * 💡 与 ProviderDisagreementError 区分：这里是节点故障（超时、无法访问），不代表节点数据不一致
+ */
+export class QuorumUnavailableError extends Error {
+  readonly responses: ProviderResponse[];
+  readonly failedUrls: string[];
+
+  constructor(responses: ProviderResponse[], required: number) {
+    const failed = responses.filter(response => response.result === null);
+    const answered = responses.length - failed.length;
+    const lastError = failed[failed.length - 1]?.error || '未知错误';
+    super(`${responses.length} 个 RPC 节点中只有 ${answered} 个成功应答，至少需要 ${required} 个才能交叉验证。最后一个错误: ${lastError}`);
+    this.name = 'QuorumUnavailableError';
+    this.responses = responses;
+    this.failedUrls = failed.map(response => response.url);
+  }
+}
+
+/**
+ * 节点内部健康状态
+ */
+interface ProviderHealth {
+  url: string;
+  name: string;
+  latencyMs: number | null;
+  errorRate: number;
+  requestCount: number;
+  errorCount: number;
+  consecutiveFailures: number;
+  circuitOpenUntil: number;
+  blockNumber: number | null;
+  lastServedAt: number | null;
+  lastError: string | null;
+}
+
+/**
+ * 构造标准化的交易对象（与 The Graph 数据格式兼容）
+ *
+ * 💡 所有字段都是字符串，可以直接 JSON 序列化后在节点之间比较
+ */
+function formatTransaction(
+  txHash: string,
+  tx: ethers.TransactionResponse,
+  receipt: ethers.TransactionReceipt,
+  block: ethers.Block
+) {
+  return {
+    id: txHash,
+    hash: txHash,
+    from: {
+      address: tx.from    // 交易发送方地址
+    },
+    to: tx.to ? {
+      address: tx.to      // 交易接收方地址（可能为空，如合约创建）
+    } : null,
+    value: tx.value.toString(),              // 转账金额（wei 单位）
+    gasUsed: receipt.gasUsed.toString(),     // 实际消耗的 Gas
+    gasPrice: tx.gasPrice ? tx.gasPrice.toString() : '0',  // Gas 价格
+    blockNumber: tx.blockNumber!.toString(), // 所在区块号
+    block: {
+      hash: block.hash!,
+      number: block.number.toString()
+    },
+    timestamp: block.timestamp.toString(),   // 区块时间戳（Unix 时间）
+    status: receipt.status ? '1' : '0',      // 交易状态：1=成功，0=失败
+    transactionIndex: tx.index!.toString(),  // 在区块中的交易索引
+    data: tx.data || '0x'                   // 交易数据（可能包含附言信息）
+  };
+}
+
+/**
+ * 构造标准化的区块对象
+ */
+function formatBlock(block: ethers.Block) {
+  return {
+    id: block.hash!,
+    number: block.number.toString(),
+    hash: block.hash!,
+    timestamp: block.timestamp.toString(),
+    gasUsed: block.gasUsed.toString(),
+    gasLimit: block.gasLimit.toString(),
+    transactionCount: block.transactions.length.toString()
+  };
+}
+
+/**
+ * 以有限并发依次处理数组元素，结果顺序与输入一致
+ *
+ * @param items - 待处理的元素
+ * @param concurrency - 同时进行的任务数上限
+ * @param worker - 处理单个元素的异步函数
+ * @returns 与 items 一一对应的结果
+ *
+ * 💡 同一轮启动的任务在同一事件循环内发出请求，会被 JsonRpcProvider 合并为一个批次
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
 
 /**
  * 以太坊服务主类
  * 
  * 🏗️ 设计模式：
  * - 故障转移模式（Failover Pattern）：自动切换到可用的 RPC 节点
- * - 超时控制：防止长时间等待无响应节点
- * - 提供商轮询：记住成功的提供商，提高后续请求效率
+ * - 超时控制：按节点平均延迟动态调整，防止长时间等待无响应节点
+ * - 健康感知选择：按延迟、失败率和区块高度落后程度加权选择节点
+ * - 熔断器（Circuit Breaker）：连续失败的节点在冷却期内不再被选中
+ * - 请求流水线：JSON-RPC 批处理 + 有限并发 + 相同请求去重
  */
 export class EthereumService {
   // RPC 提供商数组 - ethers.js 的 JsonRpcProvider 实例
   private providers: ethers.JsonRpcProvider[];
   
-  // 当前使用的提供商索引 - 优化后续请求性能
-  private currentProviderIndex: number = 0;
+  // 各提供商的健康状态 - 与 providers 一一对应
+  private health: ProviderHealth[];
+
+  // 同时进行的请求数上限
+  private concurrency: number;
+
+  // 进行中的请求 - 相同的请求在完成前共享同一个 Promise
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(options: EthereumServiceOptions = {}) {
+    const endpoints = options.endpoints ?? getRpcEndpoints();
 
-  constructor() {
     /**
      * 初始化多个 RPC 提供商
-     * 每个 URL 创建一个 ethers.JsonRpcProvider 实例
+     * 每个节点创建一个 ethers.JsonRpcProvider 实例，附带节点的认证请求头，并开启 JSON-RPC 批处理
      */
-    this.providers = SEPOLIA_RPC_URLS.map(url => new ethers.JsonRpcProvider(url));
+    this.providers = endpoints.map(endpoint => {
+      const request = new ethers.FetchRequest(endpoint.url);
+      Object.entries(endpoint.headers ?? {}).forEach(([name, value]) => request.setHeader(name, value));
+      return new ethers.JsonRpcProvider(request, undefined, {
+        batchMaxCount: options.batchMaxCount ?? DEFAULT_BATCH_MAX_COUNT,
+        batchStallTime: BATCH_STALL_TIME
+      });
+    });
+    this.health = endpoints.map(endpoint => ({
+      url: endpoint.url,
+      name: getRpcEndpointName(endpoint),
+      latencyMs: null,
+      errorRate: 0,
+      requestCount: 0,
+      errorCount: 0,
+      consecutiveFailures: 0,
+      circuitOpenUntil: 0,
+      blockNumber: null,
+      lastServedAt: null,
+      lastError: null
+    }));
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  }
+
+  /**
+   * 计算节点的选择权重
+   *
+   * 📊 权重规则：
+   * - 基础权重与平均延迟成反比
+   * - 按失败率折减（失败率 100% 时只保留 10%）
+   * - 区块高度落后超过 MAX_BLOCK_LAG 时再乘以 LAGGING_WEIGHT_FACTOR
+   * - 按节点在 RPC 列表中的位置乘以 PRIORITY_DECAY 的幂，健康状况相近时靠前的节点更常被选中
+   */
+  private providerWeight(index: number, highestBlock: number | null): number {
+    const health = this.health[index];
+    let weight = (1 - health.errorRate * 0.9) / (health.latencyMs ?? UNKNOWN_LATENCY_MS);
+    weight *= PRIORITY_DECAY ** index;
+    if (highestBlock !== null && health.blockNumber !== null && highestBlock - health.blockNumber > MAX_BLOCK_LAG) {
+      weight *= LAGGING_WEIGHT_FACTOR;
+    }
+    return weight;
+  }
+
+  /**
+   * 所有节点中已知的最高区块高度
+   */
+  private highestKnownBlock(): number | null {
+    const heights = this.health.flatMap(health => health.blockNumber === null ? [] : [health.blockNumber]);
+    return heights.length > 0 ? Math.max(...heights) : null;
+  }
+
+  /**
+   * 确定本次请求尝试节点的顺序
+   *
+   * @returns 提供商索引列表
+   *
+   * 🔄 排序规则：
+   * 1. 未熔断的节点按权重随机抽样排序（权重综合健康状况和列表顺序，越高越可能排在前面，同时分摊负载）
+   * 2. 熔断中的节点排在最后，按冷却结束时间先后排列，仅在其他节点都失败时尝试
+   */
+  private selectProviderOrder(): number[] {
+    const now = Date.now();
+    const highestBlock = this.highestKnownBlock();
+    const available = this.health.flatMap((health, index) => health.circuitOpenUntil <= now ? [index] : []);
+    const open = this.health
+      .flatMap((health, index) => health.circuitOpenUntil > now ? [index] : [])
+      .sort((a, b) => this.health[a].circuitOpenUntil - this.health[b].circuitOpenUntil);
+
+    const order: number[] = [];
+    while (available.length > 0) {
+      const weights = available.map(index => this.providerWeight(index, highestBlock));
+      let pick = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+      let chosen = available.length - 1;
+      for (let i = 0; i < weights.length; i++) {
+        pick -= weights[i];
+        if (pick <= 0) {
+          chosen = i;
+          break;
+        }
+      }
+      order.push(available.splice(chosen, 1)[0]);
+    }
+
+    return [...order, ...open];
+  }
+
+  /**
+   * 记录一次成功的请求
+   */
+  private recordSuccess(health: ProviderHealth, latencyMs: number) {
+    health.requestCount++;
+    health.latencyMs = health.latencyMs === null
+      ? latencyMs
+      : health.latencyMs + HEALTH_SMOOTHING * (latencyMs - health.latencyMs);
+    health.errorRate *= 1 - HEALTH_SMOOTHING;
+    health.consecutiveFailures = 0;
+    health.circuitOpenUntil = 0;
+    health.lastServedAt = Date.now();
+  }
+
+  /**
+   * 记录一次失败的请求，连续失败达到阈值时打开熔断
+   */
+  private recordFailure(health: ProviderHealth, error: Error) {
+    health.requestCount++;
+    health.errorCount++;
+    health.errorRate += HEALTH_SMOOTHING * (1 - health.errorRate);
+    health.consecutiveFailures++;
+    health.lastError = error.message;
+
+    if (health.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+      health.circuitOpenUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+      console.warn(`RPC 提供商 ${health.name} 连续失败 ${health.consecutiveFailures} 次，熔断 ${CIRCUIT_COOLDOWN_MS / 1000} 秒`);
+    }
+  }
+
+  /**
+   * 记录节点报告的区块高度，用于计算落后程度
+   */
+  private recordBlockNumber(provider: ethers.JsonRpcProvider, blockNumber: number) {
+    const health = this.health[this.providers.indexOf(provider)];
+    if (health && (health.blockNumber === null || blockNumber > health.blockNumber)) {
+      health.blockNumber = blockNumber;
+    }
   }
 
   /**
@@ -54,35 +420,20 @@ export class EthereumService {
    * @returns Promise<T> - 操作结果
    * 
    * 🔄 工作流程：
-   * 1. 从当前成功的提供商开始尝试
-   * 2. 每个请求设置 10 秒超时
-   * 3. 失败时自动切换到下一个提供商
-   * 4. 成功时记住该提供商，提高后续效率
+   * 1. 按 selectProviderOrder() 的顺序尝试（健康节点优先，熔断节点最后）
+   * 2. 超时时间为该节点平均延迟的数倍，限制在 3～10 秒之间
+   * 3. 失败时记录失败并切换到下一个提供商
+   * 4. 成功时更新该节点的延迟和失败率
    * 5. 所有提供商都失败时抛出错误
    */
   private async tryProviders<T>(operation: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
     let lastError: Error | null = null;
     
     // 循环尝试所有提供商
-    for (let i = 0; i < this.providers.length; i++) {
-      // 计算当前应该尝试的提供商索引（从上次成功的开始）
-      const providerIndex = (this.currentProviderIndex + i) % this.providers.length;
-      const provider = this.providers[providerIndex];
-      
+    for (const providerIndex of this.selectProviderOrder()) {
       try {
-        // 使用 Promise.race 实现超时控制
-        const result = await Promise.race([
-          operation(provider),
-          new Promise<never>((_, reject) => 
-            setTimeout(() => reject(new Error('Request timeout')), 10000) // 10秒超时
-          )
-        ]);
-        
-        // 成功时记住这个提供商
-        this.currentProviderIndex = providerIndex;
-        return result;
+        return await this.runOnProvider(providerIndex, operation);
       } catch (error) {
-        console.warn(`RPC 提供商 ${SEPOLIA_RPC_URLS[providerIndex]} 请求失败:`, error);
         lastError = error instanceof Error ? error : new Error(String(error));
       }
     }
@@ -91,10 +442,149 @@ export class EthereumService {
     throw new Error(`所有 RPC 提供商都无法访问。最后一个错误: ${lastError?.message || '未知错误'}`);
   }
 
+  /**
+   * 在指定提供商上执行操作，带超时控制并记录健康统计
+   *
+   * @param providerIndex - 提供商索引
+   * @param operation - 要执行的操作函数
+   * @returns 操作结果，失败或超时时抛出错误
+   */
+  private async runOnProvider<T>(
+    providerIndex: number,
+    operation: (provider: ethers.JsonRpcProvider) => Promise<T>
+  ): Promise<T> {
+    const provider = this.providers[providerIndex];
+    const health = this.health[providerIndex];
+    const timeout = Math.min(
+      MAX_REQUEST_TIMEOUT_MS,
+      Math.max(MIN_REQUEST_TIMEOUT_MS, (health.latencyMs ?? MAX_REQUEST_TIMEOUT_MS) * TIMEOUT_LATENCY_FACTOR)
+    );
+    const startedAt = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      // 使用 Promise.race 实现超时控制
+      const result = await Promise.race([
+        operation(provider),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error('Request timeout')), timeout);
+        })
+      ]);
+
+      this.recordSuccess(health, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      console.warn(`RPC 提供商 ${health.name} 请求失败:`, error);
+      this.recordFailure(health, error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * 多节点交叉验证 - 把同一个读取请求同时发给多个提供商，比较标准化后的结果
+   *
+   * @param operation - 要执行的操作函数，返回值必须可以 JSON 序列化
+   * @param quorum - 参与验证的节点数（超过节点总数时使用全部节点）
+   * @returns 过半节点一致的结果
+   *
+   * 🔍 判定规则：
+   * 1. 按 selectProviderOrder() 选出前 quorum 个节点并发请求，多数为参与节点数的一半以上
+   * 2. 成功应答的节点不足多数时抛出 QuorumUnavailableError（节点故障，不是结果分歧）
+   * 3. 只比较成功的结果：以 JSON 序列化结果分组，最大的一致组达到多数时返回该结果
+   * 4. 否则抛出 ProviderDisagreementError，分歧节点只包含返回了不同结果的节点
+   */
+  private async queryQuorum<T>(
+    operation: (provider: ethers.JsonRpcProvider) => Promise<T>,
+    quorum: number
+  ): Promise<T> {
+    const indices = this.selectProviderOrder().slice(0, Math.min(quorum, this.providers.length));
+    const settled = await Promise.allSettled(indices.map(index => this.runOnProvider(index, operation)));
+    const required = Math.floor(indices.length / 2) + 1;
+
+    const responses: ProviderResponse[] = settled.map((outcome, i) => ({
+      url: this.health[indices[i]].url,
+      name: this.health[indices[i]].name,
+      result: outcome.status === 'fulfilled' ? JSON.stringify(outcome.value) : null,
+      error: outcome.status === 'rejected'
+        ? (outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason))
+        : null
+    }));
+
+    const answered = responses.filter(response => response.result !== null);
+    if (answered.length < required) {
+      throw new QuorumUnavailableError(responses, required);
+    }
+
+    // 按标准化结果分组，找出最大的一致组
+    const groups = new Map<string, number[]>();
+    responses.forEach((response, i) => {
+      if (response.result === null) return;
+      groups.set(response.result, [...(groups.get(response.result) ?? []), i]);
+    });
+    const largest = [...groups.values()].sort((a, b) => b.length - a.length)[0];
+
+    const divergentUrls = responses
+      .filter((response, i) => response.result !== null && !largest.includes(i))
+      .map(response => response.url);
+    if (largest.length < required) {
+      throw new ProviderDisagreementError(responses, divergentUrls, largest.length);
+    }
+
+    if (divergentUrls.length > 0 || answered.length < responses.length) {
+      console.warn(`多节点交叉验证：${largest.length}/${responses.length} 个节点一致，分歧节点:`, divergentUrls,
+        '失败节点:', responses.filter(response => response.result === null).map(response => response.url));
+    }
+    return (settled[largest[0]] as PromiseFulfilledResult<T>).value;
+  }
+
+  /**
+   * 合并相同的进行中请求
+   *
+   * @param key - 请求的唯一标识（方法名 + 参数）
+   * @param operation - 实际发起请求的函数
+   * @returns 与进行中的同一请求共享的结果
+   *
+   * 💡 请求完成（无论成败）后即移除，之后的调用会重新请求，不做长期缓存
+   */
+  private dedupe<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = operation().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * 获取区块（经过去重和故障转移）
+   *
+   * @param blockNumber - 区块号
+   * @param prefetchTxs - 是否同时返回完整的交易列表
+   */
+  private fetchBlock(blockNumber: number, prefetchTxs: boolean = false) {
+    return this.dedupe(`getBlock:${blockNumber}:${prefetchTxs}`, () =>
+      this.tryProviders(provider => provider.getBlock(blockNumber, prefetchTxs))
+    );
+  }
+
+  /**
+   * 获取交易收据（经过去重和故障转移）
+   *
+   * @param txHash - 交易哈希
+   */
+  private fetchReceipt(txHash: string) {
+    return this.dedupe(`getTransactionReceipt:${txHash}`, () =>
+      this.tryProviders(provider => provider.getTransactionReceipt(txHash))
+    );
+  }
+
   /**
    * 根据交易哈希获取交易详情
    * 
    * @param txHash - 交易哈希值（0x开头的64位十六进制字符串）
+   * @param options - 读取选项，quorum 大于 1 时开启多节点交叉验证
    * @returns 交易详情对象或 null
    * 
    * 📊 返回数据包含：
@@ -104,47 +594,43 @@ export class EthereumService {
    * - 执行状态：status (1=成功, 0=失败)
    * 
    * 🔍 查询步骤：
-   * 1. getTransaction() - 获取交易基本信息
-   * 2. getTransactionReceipt() - 获取交易执行结果
-   * 3. getBlock() - 获取区块时间戳等信息
+   * 1. getTransaction() + getTransactionReceipt() - 同时发出，合并在一个批次中
+   * 2. getBlock() - 用收据中的区块号获取区块时间戳等信息
+   *
+   * 🛡️ 交叉验证：options.quorum 大于 1 时，每个节点独立完成以上步骤，
+   * 比较交易、收据和区块哈希，不一致时抛出 ProviderDisagreementError
    */
-  async getTransactionByHash(txHash: string) {
-    return this.tryProviders(async (provider) => {
-      // 第1步：获取交易基本信息
-      const tx = await provider.getTransaction(txHash);
-      if (!tx) return null;
-
-      // 第2步：获取交易收据（包含执行结果）
-      const receipt = await provider.getTransactionReceipt(txHash);
-      if (!receipt) return null;
-
-      // 第3步：获取区块信息（主要是时间戳）
-      const block = await provider.getBlock(tx.blockNumber!);
+  async getTransactionByHash(txHash: string, options: ReadOptions = {}) {
+    const quorum = options.quorum ?? 1;
+    if (quorum > 1) {
+      return this.dedupe(`getTransactionByHash:${txHash}:quorum:${quorum}`, () =>
+        this.queryQuorum(async (provider) => {
+          const [tx, receipt] = await Promise.all([
+            provider.getTransaction(txHash),
+            provider.getTransactionReceipt(txHash)
+          ]);
+          if (!tx || !receipt) return null;
+
+          const block = await provider.getBlock(receipt.blockNumber);
+          return block ? formatTransaction(txHash, tx, receipt, block) : null;
+        }, quorum)
+      );
+    }
+
+    return this.dedupe(`getTransactionByHash:${txHash}`, async () => {
+      // 第1步：并行获取交易基本信息和交易收据（包含执行结果）
+      const [tx, receipt] = await Promise.all([
+        this.tryProviders(provider => provider.getTransaction(txHash)),
+        this.fetchReceipt(txHash)
+      ]);
+      if (!tx || !receipt) return null;
+
+      // 第2步：获取区块信息（主要是时间戳）
+      const block = await this.fetchBlock(receipt.blockNumber);
       if (!block) return null;
 
       // 返回标准化的交易对象（与 The Graph 数据格式兼容）
-      return {
-        id: txHash,
-        hash: txHash,
-        from: {
-          address: tx.from    // 交易发送方地址
-        },
-        to: tx.to ? {
-          address: tx.to      // 交易接收方地址（可能为空，如合约创建）
-        } : null,
-        value: tx.value.toString(),              // 转账金额（wei 单位）
-        gasUsed: receipt.gasUsed.toString(),     // 实际消耗的 Gas
-        gasPrice: tx.gasPrice ? tx.gasPrice.toString() : '0',  // Gas 价格
-        blockNumber: tx.blockNumber!.toString(), // 所在区块号
-        block: {
-          hash: block.hash!,
-          number: block.number.toString()
-        },
-        timestamp: block.timestamp.toString(),   // 区块时间戳（Unix 时间）
-        status: receipt.status ? '1' : '0',      // 交易状态：1=成功，0=失败
-        transactionIndex: tx.index!.toString(),  // 在区块中的交易索引
-        data: tx.data || '0x'                   // 交易数据（可能包含附言信息）
-      };
+      return formatTransaction(txHash, tx, receipt, block);
     });
   }
 
@@ -156,78 +642,172 @@ export class EthereumService {
    * @returns 交易数组
    * 
    * ⚠️  性能限制说明：
-   * - 只搜索最近1000个区块
+   * - 逐个区块扫描，只搜索最近1000个区块
+   * - 只关心合约转账记录时，请使用基于事件日志的 getTransferRecordsByAddress
    * - 这是因为全链搜索会非常慢且消耗大量资源
    * - 实际项目中通常使用索引服务（如 The Graph）来解决此问题
    * 
    * 🔍 搜索策略：
-   * 1. 从最新区块向前搜索1000个区块
+   * 1. 从最新区块向前搜索1000个区块，每轮并发获取一组区块（合并为批量请求）
    * 2. 检查每个区块中的所有交易
-   * 3. 匹配发送方或接收方地址
+   * 3. 匹配发送方或接收方地址（不区分大小写），并发获取匹配交易的收据
    * 4. 达到限制数量时停止搜索
    */
   async getTransactionsByAddress(address: string, limit: number = 20) {
-    return this.tryProviders(async (provider) => {
-      // 获取最新区块号
-      const latestBlockNumber = await provider.getBlockNumber();
-      const transactions = [];
-      
-      // 设置搜索范围：最近1000个区块（平衡性能和数据完整性）
-      const blocksToSearch = Math.min(1000, latestBlockNumber);
-      const startBlock = Math.max(0, latestBlockNumber - blocksToSearch);
-      
-      console.log(`正在搜索地址 ${address} 的交易记录，区块范围: ${startBlock} 至 ${latestBlockNumber}`);
-
-      // 从最新区块开始向前搜索
-      for (let blockNumber = latestBlockNumber; blockNumber >= startBlock && transactions.length < limit; blockNumber--) {
-        try {
-          // 获取区块及其所有交易（第二个参数为true表示包含交易详情）
-          const block = await provider.getBlock(blockNumber, true);
-          if (!block?.transactions) continue;
-
-          // 遍历区块中的所有交易
-          for (const tx of block.transactions) {
-            // 检查是否为目标地址的交易（发送方或接收方）
-            if (typeof tx !== 'string') {
-              const transaction = tx as ethers.TransactionResponse;
-              if (transaction.from === address || transaction.to === address) {
-                // 获取交易收据（执行结果）
-                const receipt = await provider.getTransactionReceipt(transaction.hash);
-                if (receipt) {
-                  // 构造标准化交易对象
-                  transactions.push({
-                    id: transaction.hash,
-                    hash: transaction.hash,
-                    from: {
-                      address: transaction.from
-                    },
-                    to: transaction.to ? {
-                      address: transaction.to
-                    } : null,
-                    value: transaction.value.toString(),
-                    gasUsed: receipt.gasUsed.toString(),
-                    gasPrice: transaction.gasPrice ? transaction.gasPrice.toString() : '0',
-                    blockNumber: blockNumber.toString(),
-                    timestamp: block.timestamp.toString(),
-                    status: receipt.status ? '1' : '0',
-                    transactionIndex: transaction.index.toString(),
-                    data: transaction.data || '0x'  // 添加交易数据字段
-                  });
-
-                  // 达到限制数量时退出循环
-                  if (transactions.length >= limit) break;
-                }
-              }
-            }
-          }
-        } catch (blockError) {
+    // 获取最新区块号
+    const latestBlockNumber = await this.getCurrentBlockNumber();
+    const target = address.toLowerCase();
+    const transactions = [];
+
+    // 设置搜索范围：最近1000个区块（平衡性能和数据完整性）
+    const blocksToSearch = Math.min(1000, latestBlockNumber);
+    const startBlock = Math.max(0, latestBlockNumber - blocksToSearch);
+
+    console.log(`正在搜索地址 ${address} 的交易记录，区块范围: ${startBlock} 至 ${latestBlockNumber}`);
+
+    // 从最新区块开始向前，每轮并发获取 concurrency 个区块，保证结果仍按区块倒序
+    for (let windowEnd = latestBlockNumber; windowEnd >= startBlock && transactions.length < limit; windowEnd -= this.concurrency) {
+      const blockNumbers = [];
+      for (let n = windowEnd; n > windowEnd - this.concurrency && n >= startBlock; n--) {
+        blockNumbers.push(n);
+      }
+
+      // 获取区块及其所有交易（忽略单个区块的错误，继续处理其他区块）
+      const blocks = await mapWithConcurrency(blockNumbers, this.concurrency, blockNumber =>
+        this.fetchBlock(blockNumber, true).catch(blockError => {
           console.warn(`处理区块 ${blockNumber} 时出错:`, blockError);
-          continue; // 忽略单个区块的错误，继续处理其他区块
-        }
+          return null;
+        })
+      );
+
+      // 找出目标地址的交易（发送方或接收方）
+      const matches = blocks.flatMap(block => (block?.prefetchedTransactions ?? [])
+        .filter(tx => tx.from.toLowerCase() === target || tx.to?.toLowerCase() === target)
+        .map(tx => ({ block, tx }))
+      );
+
+      // 并发获取交易收据（执行结果）
+      const receipts = await mapWithConcurrency(matches, this.concurrency, ({ tx }) =>
+        this.fetchReceipt(tx.hash).catch(() => null)
+      );
+
+      for (let i = 0; i < matches.length && transactions.length < limit; i++) {
+        const { block, tx: transaction } = matches[i];
+        const receipt = receipts[i];
+        if (!block || !receipt) continue;
+
+        // 构造标准化交易对象
+        transactions.push({
+          id: transaction.hash,
+          hash: transaction.hash,
+          from: {
+            address: transaction.from
+          },
+          to: transaction.to ? {
+            address: transaction.to
+          } : null,
+          value: transaction.value.toString(),
+          gasUsed: receipt.gasUsed.toString(),
+          gasPrice: transaction.gasPrice ? transaction.gasPrice.toString() : '0',
+          blockNumber: block.number.toString(),
+          timestamp: block.timestamp.toString(),
+          status: receipt.status ? '1' : '0',
+          transactionIndex: transaction.index.toString(),
+          data: transaction.data || '0x'  // 添加交易数据字段
+        });
       }
+    }
 
-      return transactions;
-    });
+    return transactions;
+  }
+
+  /**
+   * 通过合约事件日志获取地址的全部转账记录
+   *
+   * @param address - 以太坊地址（0x开头的40位十六进制）
+   * @param limit - 返回记录数量上限，不传时返回完整历史
+   * @param onProgress - 扫描进度回调，参数为已扫描区块数和总区块数
+   * @returns 按区块和日志索引倒序排列的转账记录
+   *
+   * 🔍 查询策略：
+   * 1. 从最新区块向合约部署区块倒序分段，每段 LOG_CHUNK_SIZE 个区块，每轮并发查询多段
+   * 2. 每段发起两次 eth_getLogs：TransferRecord 事件的 from 主题、to 主题分别匹配该地址
+   * 3. 按 交易哈希-日志索引 去重（自转账会同时命中两次查询）
+   * 4. 收集到 limit 条后停止继续向前扫描
+   *
+   * 💡 相比逐块扫描：
+   * - 由节点按索引主题过滤日志，无需下载区块和收据
+   * - 覆盖合约部署以来的完整历史，而不只是最近1000个区块
+   * - 每段单独走故障转移，某个节点失败只会重试当前这一段
+   */
+  async getTransferRecordsByAddress(
+    address: string,
+    limit?: number,
+    onProgress?: (scannedBlocks: number, totalBlocks: number) => void
+  ): Promise<TransferRecordLog[]> {
+    const addressTopic = ethers.zeroPadValue(ethers.getAddress(address), 32);
+    const latestBlockNumber = await this.getCurrentBlockNumber();
+    const deployBlock = SIMPLE_TRANSFER_CONTRACT.deployBlock;
+    const totalBlocks = Math.max(0, latestBlockNumber - deployBlock + 1);
+    const records = new Map<string, TransferRecordLog>();
+
+    console.log(`正在通过事件日志查询地址 ${address} 的转账记录，区块范围: ${deployBlock} 至 ${latestBlockNumber}`);
+
+    // 从最新区块向部署区块倒序划分区块段
+    const ranges: { fromBlock: number; toBlock: number }[] = [];
+    for (let toBlock = latestBlockNumber; toBlock >= deployBlock; toBlock -= LOG_CHUNK_SIZE) {
+      ranges.push({ fromBlock: Math.max(deployBlock, toBlock - LOG_CHUNK_SIZE + 1), toBlock });
+    }
+
+    // 每轮并发查询 concurrency 个区块段，逐轮向前推进，凑够数量即可停止
+    for (let start = 0; start < ranges.length; start += this.concurrency) {
+      const window = ranges.slice(start, start + this.concurrency);
+      const chunks = await mapWithConcurrency(window, this.concurrency, ({ fromBlock, toBlock }) =>
+        this.dedupe(`getLogs:${addressTopic}:${fromBlock}:${toBlock}`, () =>
+          this.tryProviders(async (provider) => {
+            const filter = { address: SIMPLE_TRANSFER_CONTRACT.address, fromBlock, toBlock };
+            const [sent, received] = await Promise.all([
+              provider.getLogs({ ...filter, topics: [TRANSFER_RECORD_TOPIC, addressTopic] }),
+              provider.getLogs({ ...filter, topics: [TRANSFER_RECORD_TOPIC, null, addressTopic] })
+            ]);
+            return [...sent, ...received];
+          })
+        )
+      );
+
+      for (const log of chunks.flat()) {
+        const id = `${log.transactionHash}-${log.index}`;
+        if (records.has(id)) continue;
+
+        const parsed = transferContractInterface.parseLog(log);
+        if (!parsed) continue;
+
+        records.set(id, {
+          id,
+          hash: log.transactionHash,
+          from: { address: parsed.args.from },
+          to: { address: parsed.args.to },
+          value: parsed.args.value.toString(),
+          message: parsed.args.message,
+          recordId: parsed.args.recordId,
+          blockNumber: log.blockNumber.toString(),
+          timestamp: parsed.args.timestamp.toString(),
+          status: '1',
+          transactionIndex: log.transactionIndex.toString(),
+          logIndex: log.index.toString()
+        });
+      }
+
+      onProgress?.(latestBlockNumber - window[window.length - 1].fromBlock + 1, totalBlocks);
+
+      // 更早分段中的记录一定排在后面，凑够数量即可停止
+      if (limit !== undefined && records.size >= limit) break;
+    }
+
+    const sorted = [...records.values()].sort((a, b) =>
+      Number(b.blockNumber) - Number(a.blockNumber) || Number(b.logIndex) - Number(a.logIndex)
+    );
+    return limit !== undefined ? sorted.slice(0, limit) : sorted;
   }
 
   /**
@@ -241,15 +821,47 @@ export class EthereumService {
    * - 监控区块链增长情况
    */
   async getCurrentBlockNumber() {
-    return this.tryProviders(async (provider) => {
-      return await provider.getBlockNumber();
-    });
+    return this.dedupe('getBlockNumber', () =>
+      this.tryProviders(async (provider) => {
+        const blockNumber = await provider.getBlockNumber();
+        this.recordBlockNumber(provider, blockNumber);
+        return blockNumber;
+      })
+    );
+  }
+
+  /**
+   * 获取各 RPC 节点的健康统计
+   *
+   * @returns 与节点列表顺序一致的统计列表
+   *
+   * 💡 UI 可以用 lastServedAt 判断某次查询由哪些节点提供数据
+   */
+  getProviderStats(): ProviderStats[] {
+    const now = Date.now();
+    const highestBlock = this.highestKnownBlock();
+
+    return this.health.map(health => ({
+      url: health.url,
+      name: health.name,
+      latencyMs: health.latencyMs,
+      errorRate: health.errorRate,
+      requestCount: health.requestCount,
+      errorCount: health.errorCount,
+      blockNumber: health.blockNumber,
+      blockLag: highestBlock !== null && health.blockNumber !== null ? highestBlock - health.blockNumber : null,
+      circuitOpen: health.circuitOpenUntil > now,
+      circuitOpenUntil: health.circuitOpenUntil > now ? health.circuitOpenUntil : null,
+      lastServedAt: health.lastServedAt,
+      lastError: health.lastError
+    }));
   }
 
   /**
    * 根据区块号获取区块信息
    * 
    * @param blockNumber - 区块号
+   * @param options - 读取选项，quorum 大于 1 时开启多节点交叉验证
    * @returns 区块信息对象或 null
    * 
    * 📊 返回区块信息：
@@ -261,21 +873,17 @@ export class EthereumService {
    * - gasLimit: Gas 限制
    * - transactionCount: 区块中包含的交易数量
    */
-  async getBlockByNumber(blockNumber: number) {
-    return this.tryProviders(async (provider) => {
-      const block = await provider.getBlock(blockNumber);
-      if (!block) return null;
+  async getBlockByNumber(blockNumber: number, options: ReadOptions = {}) {
+    const quorum = options.quorum ?? 1;
+    if (quorum > 1) {
+      return this.queryQuorum(async (provider) => {
+        const block = await provider.getBlock(blockNumber);
+        return block ? formatBlock(block) : null;
+      }, quorum);
+    }
 
-      return {
-        id: block.hash!,
-        number: block.number.toString(),
-        hash: block.hash!,
-        timestamp: block.timestamp.toString(),
-        gasUsed: block.gasUsed.toString(),
-        gasLimit: block.gasLimit.toString(),
-        transactionCount: block.transactions.length.toString()
-      };
-    });
+    const block = await this.fetchBlock(blockNumber);
+    return block ? formatBlock(block) : null;
   }
 }
 
@@ -284,7 +892,7 @@ export class EthereumService {
  * 
  * 💡 为什么使用单例？
  * - 避免重复创建多个服务实例
- * - 保持提供商状态（currentProviderIndex）
+ * - 保持提供商健康状态（延迟、失败率、熔断）
  * - 简化在其他组件中的使用
  */
 export const ethereumService = new EthereumService();
\ No newline at end of file
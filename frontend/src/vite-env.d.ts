@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Sepolia RPC 节点：逗号分隔的地址，或 [{"url": "...", "headers": {...}}] 形式的 JSON 数组
+  readonly VITE_SEPOLIA_RPC_ENDPOINTS?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -44,6 +44,8 @@ export default [
         'Bytes': 'readonly',
         'log': 'readonly',
         'ethereum': 'readonly',
+        'i32': 'readonly',
+        'changetype': 'readonly',
         
         // Node.js 环境变量
         'console': 'readonly',
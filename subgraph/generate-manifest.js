@@ -0,0 +1,212 @@
+#!/usr/bin/env node
+
+/**
+ * Generate subgraph.yaml for a named network
+ * 
+ * 🎯 功能说明：
+ * - 根据 subgraph.template.yaml 和 networks.json 生成指定网络的 subgraph.yaml
+ * - 合约地址和起始区块只在 networks.json 中维护，切换网络无需手动修改清单
+ * - 该网络未配置的数据源（如本地链上不存在的代币）会被整体移除
+ * 
+ * 📋 模板语法：
+ * - {{network}}：替换为网络名称
+ * - {{数据源名称.字段}}：替换为 networks.json 中该数据源的字段（address / startBlock）
+ * - 单独一行的 "# {{#数据源名称}}" 与 "# {{/数据源名称}}"：
+ *   之间的内容仅在该网络配置了此数据源时保留
+ * - 数据源配置为数组时，区块按数组元素各生成一份，区块内的 {{数据源名称.字段}} 取当前元素的值，
+ *   用于同一网络部署了多份相同合约、又没有登记合约的情况
+ * - {{数据源名称.name}} 取元素的 name 字段，未配置时为数据源名称；同一数据源下的名称不能重复
+ * 
+ * 💡 使用方法：
+ * - node generate-manifest.js sepolia
+ * - NETWORK=localhost node generate-manifest.js
+ * - node generate-manifest.js localhost --output subgraph.deploy.yaml
+ * - 未指定网络时默认使用 sepolia，未指定 --output 时写入 subgraph.yaml
+ * 
+ * ⚠️ 注意事项：
+ * - graph-node 中配置的网络名称必须与 networks.json 中的键一致
+ * - 仓库中提交的 subgraph.yaml 是 sepolia 版本，只通过 pnpm manifest 更新；
+ *   部署脚本写入被 git 忽略的 subgraph.deploy.yaml，不会改动提交的清单
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEMPLATE_PATH = path.join(__dirname, 'subgraph.template.yaml');
+const NETWORKS_PATH = path.join(__dirname, 'networks.json');
+const DEFAULT_MANIFEST = 'subgraph.yaml';
+
+const DEFAULT_NETWORK = 'sepolia';
+
+const SECTION_START = /^\s*#\s*\{\{#(\w+)\}\}\s*$/;
+const SECTION_END = /^\s*#\s*\{\{\/(\w+)\}\}\s*$/;
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * 获取数据源的全部部署配置
+ * 
+ * @param {string} name - 数据源名称
+ * @param {object | object[] | undefined} config - networks.json 中的配置（单个对象或数组）
+ * @returns {object[]} 部署列表，未配置时为空数组
+ */
+function deploymentsOf(name, config) {
+  if (config === undefined) {
+    return [];
+  }
+
+  const deployments = Array.isArray(config) ? config : [config];
+  const names = new Set();
+  deployments.forEach((deployment) => {
+    const deploymentName = deployment.name ?? name;
+    if (names.has(deploymentName)) {
+      throw new Error(`${name} 中有多个部署使用名称 ${deploymentName}，请为每个部署配置不同的 name`);
+    }
+    names.add(deploymentName);
+  });
+  return deployments;
+}
+
+/**
+ * 按网络配置渲染模板
+ * 
+ * @param {string} template - 模板内容
+ * @param {string} network - 网络名称
+ * @param {Record<string, object | object[]>} dataSources - 该网络的数据源配置
+ * @returns {string} 渲染后的清单内容
+ */
+function renderTemplate(template, network, dataSources) {
+  const output = [];
+  // 当前所在的数据源区块及其中的模板行，null 表示不在任何区块中
+  let section = null;
+  let sectionLines = [];
+
+  const renderLine = (line, index, current) =>
+    line.replace(PLACEHOLDER, (_, key) => resolvePlaceholder(key, network, dataSources, index, current));
+
+  template.split('\n').forEach((line, index) => {
+    const start = line.match(SECTION_START);
+    if (start) {
+      if (section !== null) {
+        throw new Error(`第 ${index + 1} 行：区块 ${start[1]} 嵌套在 ${section} 中`);
+      }
+      section = start[1];
+      sectionLines = [];
+      return;
+    }
+
+    const end = line.match(SECTION_END);
+    if (end) {
+      if (end[1] !== section) {
+        throw new Error(`第 ${index + 1} 行：区块结束标记 ${end[1]} 与开始标记 ${section} 不匹配`);
+      }
+      // 每个部署生成一份区块，未配置的数据源整体移除
+      for (const deployment of deploymentsOf(section, dataSources[section])) {
+        const current = { section, deployment };
+        sectionLines.forEach(({ text, lineIndex }) => output.push(renderLine(text, lineIndex, current)));
+      }
+      section = null;
+      return;
+    }
+
+    if (section !== null) {
+      sectionLines.push({ text: line, lineIndex: index });
+      return;
+    }
+
+    output.push(renderLine(line, index, null));
+  });
+
+  if (section !== null) {
+    throw new Error(`区块 ${section} 缺少结束标记`);
+  }
+
+  // 移除区块后可能留下多余的空行
+  return output.join('\n').replace(/\n{3,}/g, '\n\n').replace(/\n+$/, '\n');
+}
+
+/**
+ * 解析单个占位符
+ * 
+ * @param {string} key - 占位符名称，如 network 或 TokenUSDC.address
+ * @param {string} network - 网络名称
+ * @param {Record<string, object | object[]>} dataSources - 该网络的数据源配置
+ * @param {number} index - 所在行号（从 0 开始），用于错误提示
+ * @param {{ section: string, deployment: object } | null} current - 正在渲染的区块及部署，不在区块中时为 null
+ * @returns {string} 替换值
+ */
+function resolvePlaceholder(key, network, dataSources, index, current) {
+  if (key === 'network') {
+    return network;
+  }
+
+  const [name, field] = key.split('.');
+  let config = dataSources[name];
+  if (current !== null && current.section === name) {
+    config = current.deployment;
+  } else if (Array.isArray(config)) {
+    throw new Error(`第 ${index + 1} 行：${name} 配置了多个部署，只能在它自己的区块中引用`);
+  }
+
+  if (config && field === 'name') {
+    return String(config.name ?? name);
+  }
+  if (!config || config[field] === undefined) {
+    throw new Error(`第 ${index + 1} 行：networks.json 中 ${network}.${name} 缺少 ${field} 配置`);
+  }
+
+  return String(config[field]);
+}
+
+/**
+ * 解析命令行参数
+ * 
+ * @param {string[]} args - 去掉 node 和脚本路径后的参数
+ * @returns {{ network: string, output: string }} 网络名称和输出文件名
+ */
+function parseArgs(args) {
+  let network = null;
+  let output = DEFAULT_MANIFEST;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--output' || args[i] === '-o') {
+      output = args[++i];
+      if (!output) {
+        throw new Error('--output 缺少文件名');
+      }
+    } else {
+      network = args[i];
+    }
+  }
+
+  return { network: network || process.env.NETWORK || DEFAULT_NETWORK, output };
+}
+
+function generateManifest() {
+  const { network, output } = parseArgs(process.argv.slice(2));
+  console.log(`🔧 生成 ${network} 网络的 ${output}...`);
+
+  const networks = JSON.parse(fs.readFileSync(NETWORKS_PATH, 'utf8'));
+  const dataSources = networks[network];
+  if (!dataSources) {
+    throw new Error(`networks.json 中没有 ${network} 网络，可选：${Object.keys(networks).join(', ')}`);
+  }
+
+  const template = fs.readFileSync(TEMPLATE_PATH, 'utf8');
+  const manifest = renderTemplate(template, network, dataSources);
+
+  fs.writeFileSync(path.join(__dirname, output), manifest, 'utf8');
+
+  console.log(`✅ 已生成 ${output}（数据源：${Object.keys(dataSources).join(', ')}）`);
+}
+
+// 执行生成
+try {
+  generateManifest();
+} catch (error) {
+  console.error('❌ 生成 subgraph.yaml 失败:', error.message);
+  process.exit(1);
+}
@@ -64,6 +64,23 @@ export class Account extends Entity {
     this.set("address", Value.fromBytes(value));
   }
 
+  get contract(): string | null {
+    let value = this.get("contract");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set contract(value: string | null) {
+    if (!value) {
+      this.unset("contract");
+    } else {
+      this.set("contract", Value.fromString(<string>value));
+    }
+  }
+
   get transferRecordsSent(): TransferRecordLoader {
     return new TransferRecordLoader(
       "Account",
@@ -92,9 +109,193 @@ export class Account extends Entity {
   set recordCount(value: BigInt) {
     this.set("recordCount", Value.fromBigInt(value));
   }
+
+  get sentCount(): BigInt {
+    let value = this.get("sentCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set sentCount(value: BigInt) {
+    this.set("sentCount", Value.fromBigInt(value));
+  }
+
+  get receivedCount(): BigInt {
+    let value = this.get("receivedCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set receivedCount(value: BigInt) {
+    this.set("receivedCount", Value.fromBigInt(value));
+  }
+
+  get selfTransferCount(): BigInt {
+    let value = this.get("selfTransferCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set selfTransferCount(value: BigInt) {
+    this.set("selfTransferCount", Value.fromBigInt(value));
+  }
+
+  get totalSent(): BigInt {
+    let value = this.get("totalSent");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalSent(value: BigInt) {
+    this.set("totalSent", Value.fromBigInt(value));
+  }
+
+  get totalReceived(): BigInt {
+    let value = this.get("totalReceived");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalReceived(value: BigInt) {
+    this.set("totalReceived", Value.fromBigInt(value));
+  }
+
+  get netFlow(): BigInt {
+    let value = this.get("netFlow");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set netFlow(value: BigInt) {
+    this.set("netFlow", Value.fromBigInt(value));
+  }
+
+  get firstActivityBlock(): BigInt {
+    let value = this.get("firstActivityBlock");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set firstActivityBlock(value: BigInt) {
+    this.set("firstActivityBlock", Value.fromBigInt(value));
+  }
+
+  get firstActivityTimestamp(): BigInt {
+    let value = this.get("firstActivityTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set firstActivityTimestamp(value: BigInt) {
+    this.set("firstActivityTimestamp", Value.fromBigInt(value));
+  }
+
+  get lastActivityBlock(): BigInt {
+    let value = this.get("lastActivityBlock");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set lastActivityBlock(value: BigInt) {
+    this.set("lastActivityBlock", Value.fromBigInt(value));
+  }
+
+  get lastActivityTimestamp(): BigInt {
+    let value = this.get("lastActivityTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set lastActivityTimestamp(value: BigInt) {
+    this.set("lastActivityTimestamp", Value.fromBigInt(value));
+  }
+
+  get counterparties(): AccountPairLoader {
+    return new AccountPairLoader(
+      "Account",
+      this.get("id")!.toString(),
+      "counterparties",
+    );
+  }
+
+  get incomingCounterparties(): AccountPairLoader {
+    return new AccountPairLoader(
+      "Account",
+      this.get("id")!.toString(),
+      "incomingCounterparties",
+    );
+  }
+
+  get uniqueCounterpartyCount(): BigInt {
+    let value = this.get("uniqueCounterpartyCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set uniqueCounterpartyCount(value: BigInt) {
+    this.set("uniqueCounterpartyCount", Value.fromBigInt(value));
+  }
+
+  get possibleDuplicateCount(): BigInt {
+    let value = this.get("possibleDuplicateCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set possibleDuplicateCount(value: BigInt) {
+    this.set("possibleDuplicateCount", Value.fromBigInt(value));
+  }
+
+  get daySnapshots(): AccountDaySnapshotLoader {
+    return new AccountDaySnapshotLoader(
+      "Account",
+      this.get("id")!.toString(),
+      "daySnapshots",
+    );
+  }
+
+  get mentions(): MentionLoader {
+    return new MentionLoader("Account", this.get("id")!.toString(), "mentions");
+  }
 }
 
-export class TransferRecord extends Entity {
+export class AccountDaySnapshot extends Entity {
   constructor(id: string) {
     super();
     this.set("id", Value.fromString(id));
@@ -102,24 +303,26 @@ export class TransferRecord extends Entity {
 
   save(): void {
     let id = this.get("id");
-    assert(id != null, "Cannot save TransferRecord entity without an ID");
+    assert(id != null, "Cannot save AccountDaySnapshot entity without an ID");
     if (id) {
       assert(
         id.kind == ValueKind.STRING,
-        `Entities of type TransferRecord must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+        `Entities of type AccountDaySnapshot must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
       );
-      store.set("TransferRecord", id.toString(), this);
+      store.set("AccountDaySnapshot", id.toString(), this);
     }
   }
 
-  static loadInBlock(id: string): TransferRecord | null {
-    return changetype<TransferRecord | null>(
-      store.get_in_block("TransferRecord", id),
+  static loadInBlock(id: string): AccountDaySnapshot | null {
+    return changetype<AccountDaySnapshot | null>(
+      store.get_in_block("AccountDaySnapshot", id),
     );
   }
 
-  static load(id: string): TransferRecord | null {
-    return changetype<TransferRecord | null>(store.get("TransferRecord", id));
+  static load(id: string): AccountDaySnapshot | null {
+    return changetype<AccountDaySnapshot | null>(
+      store.get("AccountDaySnapshot", id),
+    );
   }
 
   get id(): string {
@@ -135,47 +338,60 @@ export class TransferRecord extends Entity {
     this.set("id", Value.fromString(value));
   }
 
-  get recordId(): Bytes {
-    let value = this.get("recordId");
+  get account(): string {
+    let value = this.get("account");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
-      return value.toBytes();
+      return value.toString();
     }
   }
 
-  set recordId(value: Bytes) {
-    this.set("recordId", Value.fromBytes(value));
+  set account(value: string) {
+    this.set("account", Value.fromString(value));
   }
 
-  get from(): string {
-    let value = this.get("from");
+  get dayId(): i32 {
+    let value = this.get("dayId");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set dayId(value: i32) {
+    this.set("dayId", Value.fromI32(value));
+  }
+
+  get dayStartTimestamp(): BigInt {
+    let value = this.get("dayStartTimestamp");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
-      return value.toString();
+      return value.toBigInt();
     }
   }
 
-  set from(value: string) {
-    this.set("from", Value.fromString(value));
+  set dayStartTimestamp(value: BigInt) {
+    this.set("dayStartTimestamp", Value.fromBigInt(value));
   }
 
-  get to(): string {
-    let value = this.get("to");
+  get sentCount(): BigInt {
+    let value = this.get("sentCount");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
-      return value.toString();
+      return value.toBigInt();
     }
   }
 
-  set to(value: string) {
-    this.set("to", Value.fromString(value));
+  set sentCount(value: BigInt) {
+    this.set("sentCount", Value.fromBigInt(value));
   }
 
-  get value(): BigInt {
-    let value = this.get("value");
+  get receivedCount(): BigInt {
+    let value = this.get("receivedCount");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -183,25 +399,25 @@ export class TransferRecord extends Entity {
     }
   }
 
-  set value(value: BigInt) {
-    this.set("value", Value.fromBigInt(value));
+  set receivedCount(value: BigInt) {
+    this.set("receivedCount", Value.fromBigInt(value));
   }
 
-  get message(): string {
-    let value = this.get("message");
+  get totalSent(): BigInt {
+    let value = this.get("totalSent");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
-      return value.toString();
+      return value.toBigInt();
     }
   }
 
-  set message(value: string) {
-    this.set("message", Value.fromString(value));
+  set totalSent(value: BigInt) {
+    this.set("totalSent", Value.fromBigInt(value));
   }
 
-  get timestamp(): BigInt {
-    let value = this.get("timestamp");
+  get totalReceived(): BigInt {
+    let value = this.get("totalReceived");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -209,12 +425,12 @@ export class TransferRecord extends Entity {
     }
   }
 
-  set timestamp(value: BigInt) {
-    this.set("timestamp", Value.fromBigInt(value));
+  set totalReceived(value: BigInt) {
+    this.set("totalReceived", Value.fromBigInt(value));
   }
 
-  get blockNumber(): BigInt {
-    let value = this.get("blockNumber");
+  get netFlow(): BigInt {
+    let value = this.get("netFlow");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -222,38 +438,3355 @@ export class TransferRecord extends Entity {
     }
   }
 
-  set blockNumber(value: BigInt) {
-    this.set("blockNumber", Value.fromBigInt(value));
+  set netFlow(value: BigInt) {
+    this.set("netFlow", Value.fromBigInt(value));
   }
 
-  get transactionHash(): Bytes {
-    let value = this.get("transactionHash");
+  get daySentCount(): BigInt {
+    let value = this.get("daySentCount");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
-      return value.toBytes();
+      return value.toBigInt();
     }
   }
 
-  set transactionHash(value: Bytes) {
-    this.set("transactionHash", Value.fromBytes(value));
+  set daySentCount(value: BigInt) {
+    this.set("daySentCount", Value.fromBigInt(value));
   }
-}
 
-export class TransferRecordLoader extends Entity {
-  _entity: string;
-  _field: string;
-  _id: string;
+  get dayReceivedCount(): BigInt {
+    let value = this.get("dayReceivedCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
 
-  constructor(entity: string, id: string, field: string) {
+  set dayReceivedCount(value: BigInt) {
+    this.set("dayReceivedCount", Value.fromBigInt(value));
+  }
+
+  get daySent(): BigInt {
+    let value = this.get("daySent");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set daySent(value: BigInt) {
+    this.set("daySent", Value.fromBigInt(value));
+  }
+
+  get dayReceived(): BigInt {
+    let value = this.get("dayReceived");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set dayReceived(value: BigInt) {
+    this.set("dayReceived", Value.fromBigInt(value));
+  }
+
+  get lastUpdatedBlock(): BigInt {
+    let value = this.get("lastUpdatedBlock");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set lastUpdatedBlock(value: BigInt) {
+    this.set("lastUpdatedBlock", Value.fromBigInt(value));
+  }
+}
+
+export class TransferRecord extends Entity {
+  constructor(id: string) {
     super();
-    this._entity = entity;
-    this._id = id;
-    this._field = field;
+    this.set("id", Value.fromString(id));
   }
 
-  load(): TransferRecord[] {
-    let value = store.loadRelated(this._entity, this._id, this._field);
-    return changetype<TransferRecord[]>(value);
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save TransferRecord entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type TransferRecord must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("TransferRecord", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): TransferRecord | null {
+    return changetype<TransferRecord | null>(
+      store.get_in_block("TransferRecord", id),
+    );
+  }
+
+  static load(id: string): TransferRecord | null {
+    return changetype<TransferRecord | null>(store.get("TransferRecord", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get contract(): string {
+    let value = this.get("contract");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set contract(value: string) {
+    this.set("contract", Value.fromString(value));
+  }
+
+  get kind(): string {
+    let value = this.get("kind");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set kind(value: string) {
+    this.set("kind", Value.fromString(value));
+  }
+
+  get recordId(): Bytes {
+    let value = this.get("recordId");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set recordId(value: Bytes) {
+    this.set("recordId", Value.fromBytes(value));
+  }
+
+  get recordIdVerified(): boolean {
+    let value = this.get("recordIdVerified");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set recordIdVerified(value: boolean) {
+    this.set("recordIdVerified", Value.fromBoolean(value));
+  }
+
+  get sequenceNumber(): BigInt | null {
+    let value = this.get("sequenceNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set sequenceNumber(value: BigInt | null) {
+    if (!value) {
+      this.unset("sequenceNumber");
+    } else {
+      this.set("sequenceNumber", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get from(): string {
+    let value = this.get("from");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set from(value: string) {
+    this.set("from", Value.fromString(value));
+  }
+
+  get to(): string {
+    let value = this.get("to");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set to(value: string) {
+    this.set("to", Value.fromString(value));
+  }
+
+  get value(): BigInt {
+    let value = this.get("value");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set value(value: BigInt) {
+    this.set("value", Value.fromBigInt(value));
+  }
+
+  get message(): string {
+    let value = this.get("message");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set message(value: string) {
+    this.set("message", Value.fromString(value));
+  }
+
+  get timestamp(): BigInt {
+    let value = this.get("timestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set timestamp(value: BigInt) {
+    this.set("timestamp", Value.fromBigInt(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get block(): string {
+    let value = this.get("block");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set block(value: string) {
+    this.set("block", Value.fromString(value));
+  }
+
+  get transactionHash(): Bytes {
+    let value = this.get("transactionHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set transactionHash(value: Bytes) {
+    this.set("transactionHash", Value.fromBytes(value));
+  }
+
+  get transaction(): string {
+    let value = this.get("transaction");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set transaction(value: string) {
+    this.set("transaction", Value.fromString(value));
+  }
+
+  get batch(): string | null {
+    let value = this.get("batch");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set batch(value: string | null) {
+    if (!value) {
+      this.unset("batch");
+    } else {
+      this.set("batch", Value.fromString(<string>value));
+    }
+  }
+
+  get batchIndex(): i32 {
+    let value = this.get("batchIndex");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set batchIndex(value: i32) {
+    this.set("batchIndex", Value.fromI32(value));
+  }
+
+  get possibleDuplicateOf(): string | null {
+    let value = this.get("possibleDuplicateOf");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set possibleDuplicateOf(value: string | null) {
+    if (!value) {
+      this.unset("possibleDuplicateOf");
+    } else {
+      this.set("possibleDuplicateOf", Value.fromString(<string>value));
+    }
+  }
+
+  get tags(): Array<string> {
+    let value = this.get("tags");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set tags(value: Array<string>) {
+    this.set("tags", Value.fromStringArray(value));
+  }
+
+  get mentions(): MentionLoader {
+    return new MentionLoader(
+      "TransferRecord",
+      this.get("id")!.toString(),
+      "mentions",
+    );
+  }
+
+  get replyToRecordId(): Bytes | null {
+    let value = this.get("replyToRecordId");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set replyToRecordId(value: Bytes | null) {
+    if (!value) {
+      this.unset("replyToRecordId");
+    } else {
+      this.set("replyToRecordId", Value.fromBytes(<Bytes>value));
+    }
+  }
+
+  get replyTo(): string | null {
+    let value = this.get("replyTo");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set replyTo(value: string | null) {
+    if (!value) {
+      this.unset("replyTo");
+    } else {
+      this.set("replyTo", Value.fromString(<string>value));
+    }
+  }
+
+  get replies(): TransferRecordLoader {
+    return new TransferRecordLoader(
+      "TransferRecord",
+      this.get("id")!.toString(),
+      "replies",
+    );
+  }
+
+  get alert(): LargeTransferAlertLoader {
+    return new LargeTransferAlertLoader(
+      "TransferRecord",
+      this.get("id")!.toString(),
+      "alert",
+    );
+  }
+}
+
+export class DailyTransferStat extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save DailyTransferStat entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type DailyTransferStat must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("DailyTransferStat", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): DailyTransferStat | null {
+    return changetype<DailyTransferStat | null>(
+      store.get_in_block("DailyTransferStat", id),
+    );
+  }
+
+  static load(id: string): DailyTransferStat | null {
+    return changetype<DailyTransferStat | null>(
+      store.get("DailyTransferStat", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get dayId(): i32 {
+    let value = this.get("dayId");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set dayId(value: i32) {
+    this.set("dayId", Value.fromI32(value));
+  }
+
+  get dayStartTimestamp(): BigInt {
+    let value = this.get("dayStartTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set dayStartTimestamp(value: BigInt) {
+    this.set("dayStartTimestamp", Value.fromBigInt(value));
+  }
+
+  get recordCount(): BigInt {
+    let value = this.get("recordCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set recordCount(value: BigInt) {
+    this.set("recordCount", Value.fromBigInt(value));
+  }
+
+  get totalValue(): BigInt {
+    let value = this.get("totalValue");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalValue(value: BigInt) {
+    this.set("totalValue", Value.fromBigInt(value));
+  }
+
+  get maxValue(): BigInt {
+    let value = this.get("maxValue");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set maxValue(value: BigInt) {
+    this.set("maxValue", Value.fromBigInt(value));
+  }
+
+  get uniqueSenderCount(): BigInt {
+    let value = this.get("uniqueSenderCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set uniqueSenderCount(value: BigInt) {
+    this.set("uniqueSenderCount", Value.fromBigInt(value));
+  }
+
+  get uniqueReceiverCount(): BigInt {
+    let value = this.get("uniqueReceiverCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set uniqueReceiverCount(value: BigInt) {
+    this.set("uniqueReceiverCount", Value.fromBigInt(value));
+  }
+}
+
+export class HourlyTransferStat extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save HourlyTransferStat entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type HourlyTransferStat must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("HourlyTransferStat", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): HourlyTransferStat | null {
+    return changetype<HourlyTransferStat | null>(
+      store.get_in_block("HourlyTransferStat", id),
+    );
+  }
+
+  static load(id: string): HourlyTransferStat | null {
+    return changetype<HourlyTransferStat | null>(
+      store.get("HourlyTransferStat", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get hourId(): i32 {
+    let value = this.get("hourId");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set hourId(value: i32) {
+    this.set("hourId", Value.fromI32(value));
+  }
+
+  get hourStartTimestamp(): BigInt {
+    let value = this.get("hourStartTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set hourStartTimestamp(value: BigInt) {
+    this.set("hourStartTimestamp", Value.fromBigInt(value));
+  }
+
+  get recordCount(): BigInt {
+    let value = this.get("recordCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set recordCount(value: BigInt) {
+    this.set("recordCount", Value.fromBigInt(value));
+  }
+
+  get totalValue(): BigInt {
+    let value = this.get("totalValue");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalValue(value: BigInt) {
+    this.set("totalValue", Value.fromBigInt(value));
+  }
+
+  get maxValue(): BigInt {
+    let value = this.get("maxValue");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set maxValue(value: BigInt) {
+    this.set("maxValue", Value.fromBigInt(value));
+  }
+
+  get uniqueSenderCount(): BigInt {
+    let value = this.get("uniqueSenderCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set uniqueSenderCount(value: BigInt) {
+    this.set("uniqueSenderCount", Value.fromBigInt(value));
+  }
+
+  get uniqueReceiverCount(): BigInt {
+    let value = this.get("uniqueReceiverCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set uniqueReceiverCount(value: BigInt) {
+    this.set("uniqueReceiverCount", Value.fromBigInt(value));
+  }
+}
+
+export class TransferStatParticipant extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(
+      id != null,
+      "Cannot save TransferStatParticipant entity without an ID",
+    );
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type TransferStatParticipant must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("TransferStatParticipant", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): TransferStatParticipant | null {
+    return changetype<TransferStatParticipant | null>(
+      store.get_in_block("TransferStatParticipant", id),
+    );
+  }
+
+  static load(id: string): TransferStatParticipant | null {
+    return changetype<TransferStatParticipant | null>(
+      store.get("TransferStatParticipant", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get bucket(): string {
+    let value = this.get("bucket");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set bucket(value: string) {
+    this.set("bucket", Value.fromString(value));
+  }
+
+  get role(): string {
+    let value = this.get("role");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set role(value: string) {
+    this.set("role", Value.fromString(value));
+  }
+
+  get address(): Bytes {
+    let value = this.get("address");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set address(value: Bytes) {
+    this.set("address", Value.fromBytes(value));
+  }
+}
+
+export class TransferDataPoint extends Entity {
+  constructor(id: Int8) {
+    super();
+    this.set("id", Value.fromI64(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save TransferDataPoint entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.INT8,
+        `Entities of type TransferDataPoint must have an ID of type Int8 but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("TransferDataPoint", id.toI64().toString(), this);
+    }
+  }
+
+  static loadInBlock(id: Int8): TransferDataPoint | null {
+    return changetype<TransferDataPoint | null>(
+      store.get_in_block("TransferDataPoint", id.toString()),
+    );
+  }
+
+  static load(id: Int8): TransferDataPoint | null {
+    return changetype<TransferDataPoint | null>(
+      store.get("TransferDataPoint", id.toString()),
+    );
+  }
+
+  get id(): i64 {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI64();
+    }
+  }
+
+  set id(value: i64) {
+    this.set("id", Value.fromI64(value));
+  }
+
+  get timestamp(): i64 {
+    let value = this.get("timestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toTimestamp();
+    }
+  }
+
+  set timestamp(value: i64) {
+    this.set("timestamp", Value.fromTimestamp(value));
+  }
+
+  get from(): string {
+    let value = this.get("from");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set from(value: string) {
+    this.set("from", Value.fromString(value));
+  }
+
+  get to(): string {
+    let value = this.get("to");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set to(value: string) {
+    this.set("to", Value.fromString(value));
+  }
+
+  get value(): BigInt {
+    let value = this.get("value");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set value(value: BigInt) {
+    this.set("value", Value.fromBigInt(value));
+  }
+}
+
+export class AccountPair extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save AccountPair entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type AccountPair must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("AccountPair", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): AccountPair | null {
+    return changetype<AccountPair | null>(
+      store.get_in_block("AccountPair", id),
+    );
+  }
+
+  static load(id: string): AccountPair | null {
+    return changetype<AccountPair | null>(store.get("AccountPair", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get from(): string {
+    let value = this.get("from");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set from(value: string) {
+    this.set("from", Value.fromString(value));
+  }
+
+  get to(): string {
+    let value = this.get("to");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set to(value: string) {
+    this.set("to", Value.fromString(value));
+  }
+
+  get transferCount(): BigInt {
+    let value = this.get("transferCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set transferCount(value: BigInt) {
+    this.set("transferCount", Value.fromBigInt(value));
+  }
+
+  get totalValue(): BigInt {
+    let value = this.get("totalValue");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalValue(value: BigInt) {
+    this.set("totalValue", Value.fromBigInt(value));
+  }
+
+  get firstTransfer(): string {
+    let value = this.get("firstTransfer");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set firstTransfer(value: string) {
+    this.set("firstTransfer", Value.fromString(value));
+  }
+
+  get lastTransfer(): string {
+    let value = this.get("lastTransfer");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set lastTransfer(value: string) {
+    this.set("lastTransfer", Value.fromString(value));
+  }
+
+  get firstTransferTimestamp(): BigInt {
+    let value = this.get("firstTransferTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set firstTransferTimestamp(value: BigInt) {
+    this.set("firstTransferTimestamp", Value.fromBigInt(value));
+  }
+
+  get lastTransferTimestamp(): BigInt {
+    let value = this.get("lastTransferTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set lastTransferTimestamp(value: BigInt) {
+    this.set("lastTransferTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class Token extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Token entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Token must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Token", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Token | null {
+    return changetype<Token | null>(store.get_in_block("Token", id));
+  }
+
+  static load(id: string): Token | null {
+    return changetype<Token | null>(store.get("Token", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get address(): Bytes {
+    let value = this.get("address");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set address(value: Bytes) {
+    this.set("address", Value.fromBytes(value));
+  }
+
+  get transfers(): TokenTransferLoader {
+    return new TokenTransferLoader(
+      "Token",
+      this.get("id")!.toString(),
+      "transfers",
+    );
+  }
+
+  get balances(): TokenBalanceLoader {
+    return new TokenBalanceLoader(
+      "Token",
+      this.get("id")!.toString(),
+      "balances",
+    );
+  }
+
+  get transferCount(): BigInt {
+    let value = this.get("transferCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set transferCount(value: BigInt) {
+    this.set("transferCount", Value.fromBigInt(value));
+  }
+
+  get totalVolume(): BigInt {
+    let value = this.get("totalVolume");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalVolume(value: BigInt) {
+    this.set("totalVolume", Value.fromBigInt(value));
+  }
+
+  get lastTransferBlock(): BigInt {
+    let value = this.get("lastTransferBlock");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set lastTransferBlock(value: BigInt) {
+    this.set("lastTransferBlock", Value.fromBigInt(value));
+  }
+
+  get lastTransferTimestamp(): BigInt {
+    let value = this.get("lastTransferTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set lastTransferTimestamp(value: BigInt) {
+    this.set("lastTransferTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class TokenHolder extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save TokenHolder entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type TokenHolder must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("TokenHolder", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): TokenHolder | null {
+    return changetype<TokenHolder | null>(
+      store.get_in_block("TokenHolder", id),
+    );
+  }
+
+  static load(id: string): TokenHolder | null {
+    return changetype<TokenHolder | null>(store.get("TokenHolder", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get address(): Bytes {
+    let value = this.get("address");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set address(value: Bytes) {
+    this.set("address", Value.fromBytes(value));
+  }
+
+  get transfersSent(): TokenTransferLoader {
+    return new TokenTransferLoader(
+      "TokenHolder",
+      this.get("id")!.toString(),
+      "transfersSent",
+    );
+  }
+
+  get transfersReceived(): TokenTransferLoader {
+    return new TokenTransferLoader(
+      "TokenHolder",
+      this.get("id")!.toString(),
+      "transfersReceived",
+    );
+  }
+
+  get balances(): TokenBalanceLoader {
+    return new TokenBalanceLoader(
+      "TokenHolder",
+      this.get("id")!.toString(),
+      "balances",
+    );
+  }
+}
+
+export class TokenTransfer extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save TokenTransfer entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type TokenTransfer must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("TokenTransfer", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): TokenTransfer | null {
+    return changetype<TokenTransfer | null>(
+      store.get_in_block("TokenTransfer", id),
+    );
+  }
+
+  static load(id: string): TokenTransfer | null {
+    return changetype<TokenTransfer | null>(store.get("TokenTransfer", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get from(): string | null {
+    let value = this.get("from");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set from(value: string | null) {
+    if (!value) {
+      this.unset("from");
+    } else {
+      this.set("from", Value.fromString(<string>value));
+    }
+  }
+
+  get to(): string | null {
+    let value = this.get("to");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set to(value: string | null) {
+    if (!value) {
+      this.unset("to");
+    } else {
+      this.set("to", Value.fromString(<string>value));
+    }
+  }
+
+  get value(): BigInt {
+    let value = this.get("value");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set value(value: BigInt) {
+    this.set("value", Value.fromBigInt(value));
+  }
+
+  get timestamp(): BigInt {
+    let value = this.get("timestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set timestamp(value: BigInt) {
+    this.set("timestamp", Value.fromBigInt(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get transactionHash(): Bytes {
+    let value = this.get("transactionHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set transactionHash(value: Bytes) {
+    this.set("transactionHash", Value.fromBytes(value));
+  }
+}
+
+export class TokenBalance extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save TokenBalance entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type TokenBalance must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("TokenBalance", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): TokenBalance | null {
+    return changetype<TokenBalance | null>(
+      store.get_in_block("TokenBalance", id),
+    );
+  }
+
+  static load(id: string): TokenBalance | null {
+    return changetype<TokenBalance | null>(store.get("TokenBalance", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get holder(): string {
+    let value = this.get("holder");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set holder(value: string) {
+    this.set("holder", Value.fromString(value));
+  }
+
+  get balance(): BigInt {
+    let value = this.get("balance");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set balance(value: BigInt) {
+    this.set("balance", Value.fromBigInt(value));
+  }
+
+  get lastUpdatedBlock(): BigInt {
+    let value = this.get("lastUpdatedBlock");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set lastUpdatedBlock(value: BigInt) {
+    this.set("lastUpdatedBlock", Value.fromBigInt(value));
+  }
+
+  get lastUpdatedTimestamp(): BigInt {
+    let value = this.get("lastUpdatedTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set lastUpdatedTimestamp(value: BigInt) {
+    this.set("lastUpdatedTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class Batch extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Batch entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Batch must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Batch", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Batch | null {
+    return changetype<Batch | null>(store.get_in_block("Batch", id));
+  }
+
+  static load(id: string): Batch | null {
+    return changetype<Batch | null>(store.get("Batch", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get sender(): string {
+    let value = this.get("sender");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set sender(value: string) {
+    this.set("sender", Value.fromString(value));
+  }
+
+  get transactionHash(): Bytes {
+    let value = this.get("transactionHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set transactionHash(value: Bytes) {
+    this.set("transactionHash", Value.fromBytes(value));
+  }
+
+  get size(): i32 {
+    let value = this.get("size");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set size(value: i32) {
+    this.set("size", Value.fromI32(value));
+  }
+
+  get totalValue(): BigInt {
+    let value = this.get("totalValue");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalValue(value: BigInt) {
+    this.set("totalValue", Value.fromBigInt(value));
+  }
+
+  get records(): TransferRecordLoader {
+    return new TransferRecordLoader(
+      "Batch",
+      this.get("id")!.toString(),
+      "records",
+    );
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get timestamp(): BigInt {
+    let value = this.get("timestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set timestamp(value: BigInt) {
+    this.set("timestamp", Value.fromBigInt(value));
+  }
+}
+
+export class Block extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Block entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Block must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Block", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Block | null {
+    return changetype<Block | null>(store.get_in_block("Block", id));
+  }
+
+  static load(id: string): Block | null {
+    return changetype<Block | null>(store.get("Block", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get number(): BigInt {
+    let value = this.get("number");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set number(value: BigInt) {
+    this.set("number", Value.fromBigInt(value));
+  }
+
+  get hash(): Bytes {
+    let value = this.get("hash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set hash(value: Bytes) {
+    this.set("hash", Value.fromBytes(value));
+  }
+
+  get parentHash(): Bytes {
+    let value = this.get("parentHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set parentHash(value: Bytes) {
+    this.set("parentHash", Value.fromBytes(value));
+  }
+
+  get timestamp(): BigInt {
+    let value = this.get("timestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set timestamp(value: BigInt) {
+    this.set("timestamp", Value.fromBigInt(value));
+  }
+
+  get gasUsed(): BigInt {
+    let value = this.get("gasUsed");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set gasUsed(value: BigInt) {
+    this.set("gasUsed", Value.fromBigInt(value));
+  }
+
+  get gasLimit(): BigInt {
+    let value = this.get("gasLimit");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set gasLimit(value: BigInt) {
+    this.set("gasLimit", Value.fromBigInt(value));
+  }
+
+  get transferCount(): BigInt {
+    let value = this.get("transferCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set transferCount(value: BigInt) {
+    this.set("transferCount", Value.fromBigInt(value));
+  }
+
+  get transferRecords(): TransferRecordLoader {
+    return new TransferRecordLoader(
+      "Block",
+      this.get("id")!.toString(),
+      "transferRecords",
+    );
+  }
+}
+
+export class Transaction extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Transaction entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Transaction must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Transaction", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Transaction | null {
+    return changetype<Transaction | null>(
+      store.get_in_block("Transaction", id),
+    );
+  }
+
+  static load(id: string): Transaction | null {
+    return changetype<Transaction | null>(store.get("Transaction", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get hash(): Bytes {
+    let value = this.get("hash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set hash(value: Bytes) {
+    this.set("hash", Value.fromBytes(value));
+  }
+
+  get from(): Bytes {
+    let value = this.get("from");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set from(value: Bytes) {
+    this.set("from", Value.fromBytes(value));
+  }
+
+  get to(): Bytes | null {
+    let value = this.get("to");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set to(value: Bytes | null) {
+    if (!value) {
+      this.unset("to");
+    } else {
+      this.set("to", Value.fromBytes(<Bytes>value));
+    }
+  }
+
+  get value(): BigInt {
+    let value = this.get("value");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set value(value: BigInt) {
+    this.set("value", Value.fromBigInt(value));
+  }
+
+  get gasPrice(): BigInt {
+    let value = this.get("gasPrice");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set gasPrice(value: BigInt) {
+    this.set("gasPrice", Value.fromBigInt(value));
+  }
+
+  get gasLimit(): BigInt {
+    let value = this.get("gasLimit");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set gasLimit(value: BigInt) {
+    this.set("gasLimit", Value.fromBigInt(value));
+  }
+
+  get gasUsed(): BigInt | null {
+    let value = this.get("gasUsed");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set gasUsed(value: BigInt | null) {
+    if (!value) {
+      this.unset("gasUsed");
+    } else {
+      this.set("gasUsed", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get fee(): BigInt | null {
+    let value = this.get("fee");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set fee(value: BigInt | null) {
+    if (!value) {
+      this.unset("fee");
+    } else {
+      this.set("fee", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get status(): BigInt | null {
+    let value = this.get("status");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set status(value: BigInt | null) {
+    if (!value) {
+      this.unset("status");
+    } else {
+      this.set("status", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get transactionIndex(): BigInt {
+    let value = this.get("transactionIndex");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set transactionIndex(value: BigInt) {
+    this.set("transactionIndex", Value.fromBigInt(value));
+  }
+
+  get nonce(): BigInt {
+    let value = this.get("nonce");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set nonce(value: BigInt) {
+    this.set("nonce", Value.fromBigInt(value));
+  }
+
+  get inputSize(): i32 {
+    let value = this.get("inputSize");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set inputSize(value: i32) {
+    this.set("inputSize", Value.fromI32(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get timestamp(): BigInt {
+    let value = this.get("timestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set timestamp(value: BigInt) {
+    this.set("timestamp", Value.fromBigInt(value));
+  }
+
+  get block(): string {
+    let value = this.get("block");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set block(value: string) {
+    this.set("block", Value.fromString(value));
+  }
+
+  get transferRecords(): TransferRecordLoader {
+    return new TransferRecordLoader(
+      "Transaction",
+      this.get("id")!.toString(),
+      "transferRecords",
+    );
+  }
+}
+
+export class MessageTag extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save MessageTag entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type MessageTag must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("MessageTag", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): MessageTag | null {
+    return changetype<MessageTag | null>(store.get_in_block("MessageTag", id));
+  }
+
+  static load(id: string): MessageTag | null {
+    return changetype<MessageTag | null>(store.get("MessageTag", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get name(): string {
+    let value = this.get("name");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set name(value: string) {
+    this.set("name", Value.fromString(value));
+  }
+
+  get recordCount(): BigInt {
+    let value = this.get("recordCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set recordCount(value: BigInt) {
+    this.set("recordCount", Value.fromBigInt(value));
+  }
+
+  get firstUsedTimestamp(): BigInt {
+    let value = this.get("firstUsedTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set firstUsedTimestamp(value: BigInt) {
+    this.set("firstUsedTimestamp", Value.fromBigInt(value));
+  }
+
+  get lastUsedTimestamp(): BigInt {
+    let value = this.get("lastUsedTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set lastUsedTimestamp(value: BigInt) {
+    this.set("lastUsedTimestamp", Value.fromBigInt(value));
+  }
+
+  get records(): TransferRecordLoader {
+    return new TransferRecordLoader(
+      "MessageTag",
+      this.get("id")!.toString(),
+      "records",
+    );
+  }
+}
+
+export class Mention extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Mention entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Mention must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Mention", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Mention | null {
+    return changetype<Mention | null>(store.get_in_block("Mention", id));
+  }
+
+  static load(id: string): Mention | null {
+    return changetype<Mention | null>(store.get("Mention", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get record(): string {
+    let value = this.get("record");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set record(value: string) {
+    this.set("record", Value.fromString(value));
+  }
+
+  get author(): string {
+    let value = this.get("author");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set author(value: string) {
+    this.set("author", Value.fromString(value));
+  }
+
+  get mentioned(): string {
+    let value = this.get("mentioned");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set mentioned(value: string) {
+    this.set("mentioned", Value.fromString(value));
+  }
+
+  get timestamp(): BigInt {
+    let value = this.get("timestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set timestamp(value: BigInt) {
+    this.set("timestamp", Value.fromBigInt(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+}
+
+export class AddressCode extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save AddressCode entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type AddressCode must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("AddressCode", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): AddressCode | null {
+    return changetype<AddressCode | null>(
+      store.get_in_block("AddressCode", id),
+    );
+  }
+
+  static load(id: string): AddressCode | null {
+    return changetype<AddressCode | null>(store.get("AddressCode", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get hasCode(): boolean {
+    let value = this.get("hasCode");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set hasCode(value: boolean) {
+    this.set("hasCode", Value.fromBoolean(value));
+  }
+
+  get checkedAtBlock(): BigInt {
+    let value = this.get("checkedAtBlock");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set checkedAtBlock(value: BigInt) {
+    this.set("checkedAtBlock", Value.fromBigInt(value));
+  }
+}
+
+export class RecordIdIndex extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save RecordIdIndex entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type RecordIdIndex must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("RecordIdIndex", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): RecordIdIndex | null {
+    return changetype<RecordIdIndex | null>(
+      store.get_in_block("RecordIdIndex", id),
+    );
+  }
+
+  static load(id: string): RecordIdIndex | null {
+    return changetype<RecordIdIndex | null>(store.get("RecordIdIndex", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get record(): string {
+    let value = this.get("record");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set record(value: string) {
+    this.set("record", Value.fromString(value));
+  }
+}
+
+export class LeaderboardEntry extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save LeaderboardEntry entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type LeaderboardEntry must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("LeaderboardEntry", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): LeaderboardEntry | null {
+    return changetype<LeaderboardEntry | null>(
+      store.get_in_block("LeaderboardEntry", id),
+    );
+  }
+
+  static load(id: string): LeaderboardEntry | null {
+    return changetype<LeaderboardEntry | null>(
+      store.get("LeaderboardEntry", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get window(): string {
+    let value = this.get("window");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set window(value: string) {
+    this.set("window", Value.fromString(value));
+  }
+
+  get windowEndDay(): i32 {
+    let value = this.get("windowEndDay");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set windowEndDay(value: i32) {
+    this.set("windowEndDay", Value.fromI32(value));
+  }
+
+  get account(): string {
+    let value = this.get("account");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set account(value: string) {
+    this.set("account", Value.fromString(value));
+  }
+
+  get sentCount(): BigInt {
+    let value = this.get("sentCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set sentCount(value: BigInt) {
+    this.set("sentCount", Value.fromBigInt(value));
+  }
+
+  get sentVolume(): BigInt {
+    let value = this.get("sentVolume");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set sentVolume(value: BigInt) {
+    this.set("sentVolume", Value.fromBigInt(value));
+  }
+
+  get receivedCount(): BigInt {
+    let value = this.get("receivedCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set receivedCount(value: BigInt) {
+    this.set("receivedCount", Value.fromBigInt(value));
+  }
+
+  get receivedVolume(): BigInt {
+    let value = this.get("receivedVolume");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set receivedVolume(value: BigInt) {
+    this.set("receivedVolume", Value.fromBigInt(value));
+  }
+}
+
+export class TransferFingerprint extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save TransferFingerprint entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type TransferFingerprint must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("TransferFingerprint", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): TransferFingerprint | null {
+    return changetype<TransferFingerprint | null>(
+      store.get_in_block("TransferFingerprint", id),
+    );
+  }
+
+  static load(id: string): TransferFingerprint | null {
+    return changetype<TransferFingerprint | null>(
+      store.get("TransferFingerprint", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get lastRecord(): string {
+    let value = this.get("lastRecord");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set lastRecord(value: string) {
+    this.set("lastRecord", Value.fromString(value));
+  }
+
+  get lastBlockNumber(): BigInt {
+    let value = this.get("lastBlockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set lastBlockNumber(value: BigInt) {
+    this.set("lastBlockNumber", Value.fromBigInt(value));
+  }
+
+  get occurrenceCount(): BigInt {
+    let value = this.get("occurrenceCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set occurrenceCount(value: BigInt) {
+    this.set("occurrenceCount", Value.fromBigInt(value));
+  }
+}
+
+export class LargeTransferAlert extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save LargeTransferAlert entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type LargeTransferAlert must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("LargeTransferAlert", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): LargeTransferAlert | null {
+    return changetype<LargeTransferAlert | null>(
+      store.get_in_block("LargeTransferAlert", id),
+    );
+  }
+
+  static load(id: string): LargeTransferAlert | null {
+    return changetype<LargeTransferAlert | null>(
+      store.get("LargeTransferAlert", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get record(): string {
+    let value = this.get("record");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set record(value: string) {
+    this.set("record", Value.fromString(value));
+  }
+
+  get contract(): string {
+    let value = this.get("contract");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set contract(value: string) {
+    this.set("contract", Value.fromString(value));
+  }
+
+  get severity(): string {
+    let value = this.get("severity");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set severity(value: string) {
+    this.set("severity", Value.fromString(value));
+  }
+
+  get threshold(): BigInt {
+    let value = this.get("threshold");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set threshold(value: BigInt) {
+    this.set("threshold", Value.fromBigInt(value));
+  }
+
+  get from(): string {
+    let value = this.get("from");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set from(value: string) {
+    this.set("from", Value.fromString(value));
+  }
+
+  get to(): string {
+    let value = this.get("to");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set to(value: string) {
+    this.set("to", Value.fromString(value));
+  }
+
+  get value(): BigInt {
+    let value = this.get("value");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set value(value: BigInt) {
+    this.set("value", Value.fromBigInt(value));
+  }
+
+  get timestamp(): BigInt {
+    let value = this.get("timestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set timestamp(value: BigInt) {
+    this.set("timestamp", Value.fromBigInt(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get transactionHash(): Bytes {
+    let value = this.get("transactionHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set transactionHash(value: Bytes) {
+    this.set("transactionHash", Value.fromBytes(value));
+  }
+}
+
+export class Protocol extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Protocol entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Protocol must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Protocol", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Protocol | null {
+    return changetype<Protocol | null>(store.get_in_block("Protocol", id));
+  }
+
+  static load(id: string): Protocol | null {
+    return changetype<Protocol | null>(store.get("Protocol", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get totalRecords(): BigInt {
+    let value = this.get("totalRecords");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalRecords(value: BigInt) {
+    this.set("totalRecords", Value.fromBigInt(value));
+  }
+
+  get totalValue(): BigInt {
+    let value = this.get("totalValue");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalValue(value: BigInt) {
+    this.set("totalValue", Value.fromBigInt(value));
+  }
+
+  get uniqueAccountCount(): BigInt {
+    let value = this.get("uniqueAccountCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set uniqueAccountCount(value: BigInt) {
+    this.set("uniqueAccountCount", Value.fromBigInt(value));
+  }
+
+  get uniqueSenderCount(): BigInt {
+    let value = this.get("uniqueSenderCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set uniqueSenderCount(value: BigInt) {
+    this.set("uniqueSenderCount", Value.fromBigInt(value));
+  }
+
+  get uniqueReceiverCount(): BigInt {
+    let value = this.get("uniqueReceiverCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set uniqueReceiverCount(value: BigInt) {
+    this.set("uniqueReceiverCount", Value.fromBigInt(value));
+  }
+
+  get contractTotalRecords(): BigInt | null {
+    let value = this.get("contractTotalRecords");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set contractTotalRecords(value: BigInt | null) {
+    if (!value) {
+      this.unset("contractTotalRecords");
+    } else {
+      this.set("contractTotalRecords", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get recordDrift(): BigInt | null {
+    let value = this.get("recordDrift");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set recordDrift(value: BigInt | null) {
+    if (!value) {
+      this.unset("recordDrift");
+    } else {
+      this.set("recordDrift", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get lastCheck(): string | null {
+    let value = this.get("lastCheck");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set lastCheck(value: string | null) {
+    if (!value) {
+      this.unset("lastCheck");
+    } else {
+      this.set("lastCheck", Value.fromString(<string>value));
+    }
+  }
+
+  get driftCheckCount(): BigInt {
+    let value = this.get("driftCheckCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set driftCheckCount(value: BigInt) {
+    this.set("driftCheckCount", Value.fromBigInt(value));
+  }
+}
+
+export class TransferContract extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save TransferContract entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type TransferContract must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("TransferContract", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): TransferContract | null {
+    return changetype<TransferContract | null>(
+      store.get_in_block("TransferContract", id),
+    );
+  }
+
+  static load(id: string): TransferContract | null {
+    return changetype<TransferContract | null>(
+      store.get("TransferContract", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get address(): Bytes {
+    let value = this.get("address");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set address(value: Bytes) {
+    this.set("address", Value.fromBytes(value));
+  }
+
+  get name(): string | null {
+    let value = this.get("name");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set name(value: string | null) {
+    if (!value) {
+      this.unset("name");
+    } else {
+      this.set("name", Value.fromString(<string>value));
+    }
+  }
+
+  get registrant(): Bytes | null {
+    let value = this.get("registrant");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set registrant(value: Bytes | null) {
+    if (!value) {
+      this.unset("registrant");
+    } else {
+      this.set("registrant", Value.fromBytes(<Bytes>value));
+    }
+  }
+
+  get createdAtBlock(): BigInt {
+    let value = this.get("createdAtBlock");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set createdAtBlock(value: BigInt) {
+    this.set("createdAtBlock", Value.fromBigInt(value));
+  }
+
+  get createdAtTimestamp(): BigInt {
+    let value = this.get("createdAtTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set createdAtTimestamp(value: BigInt) {
+    this.set("createdAtTimestamp", Value.fromBigInt(value));
+  }
+
+  get totalRecords(): BigInt {
+    let value = this.get("totalRecords");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalRecords(value: BigInt) {
+    this.set("totalRecords", Value.fromBigInt(value));
+  }
+
+  get totalValue(): BigInt {
+    let value = this.get("totalValue");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalValue(value: BigInt) {
+    this.set("totalValue", Value.fromBigInt(value));
+  }
+
+  get contractTotalRecords(): BigInt | null {
+    let value = this.get("contractTotalRecords");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set contractTotalRecords(value: BigInt | null) {
+    if (!value) {
+      this.unset("contractTotalRecords");
+    } else {
+      this.set("contractTotalRecords", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get recordDrift(): BigInt | null {
+    let value = this.get("recordDrift");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set recordDrift(value: BigInt | null) {
+    if (!value) {
+      this.unset("recordDrift");
+    } else {
+      this.set("recordDrift", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get lastCheck(): string | null {
+    let value = this.get("lastCheck");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set lastCheck(value: string | null) {
+    if (!value) {
+      this.unset("lastCheck");
+    } else {
+      this.set("lastCheck", Value.fromString(<string>value));
+    }
+  }
+
+  get records(): TransferRecordLoader {
+    return new TransferRecordLoader(
+      "TransferContract",
+      this.get("id")!.toString(),
+      "records",
+    );
+  }
+
+  get accounts(): AccountLoader {
+    return new AccountLoader(
+      "TransferContract",
+      this.get("id")!.toString(),
+      "accounts",
+    );
+  }
+}
+
+export class ReconciliationCheck extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save ReconciliationCheck entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type ReconciliationCheck must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("ReconciliationCheck", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): ReconciliationCheck | null {
+    return changetype<ReconciliationCheck | null>(
+      store.get_in_block("ReconciliationCheck", id),
+    );
+  }
+
+  static load(id: string): ReconciliationCheck | null {
+    return changetype<ReconciliationCheck | null>(
+      store.get("ReconciliationCheck", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get contract(): string {
+    let value = this.get("contract");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set contract(value: string) {
+    this.set("contract", Value.fromString(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get timestamp(): BigInt {
+    let value = this.get("timestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set timestamp(value: BigInt) {
+    this.set("timestamp", Value.fromBigInt(value));
+  }
+
+  get contractTotalRecords(): BigInt {
+    let value = this.get("contractTotalRecords");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set contractTotalRecords(value: BigInt) {
+    this.set("contractTotalRecords", Value.fromBigInt(value));
+  }
+
+  get indexedTotalRecords(): BigInt {
+    let value = this.get("indexedTotalRecords");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set indexedTotalRecords(value: BigInt) {
+    this.set("indexedTotalRecords", Value.fromBigInt(value));
+  }
+
+  get drift(): BigInt {
+    let value = this.get("drift");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set drift(value: BigInt) {
+    this.set("drift", Value.fromBigInt(value));
+  }
+}
+
+export class TransferRecordLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): TransferRecord[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<TransferRecord[]>(value);
+  }
+}
+
+export class AccountPairLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): AccountPair[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<AccountPair[]>(value);
+  }
+}
+
+export class AccountDaySnapshotLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): AccountDaySnapshot[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<AccountDaySnapshot[]>(value);
+  }
+}
+
+export class MentionLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): Mention[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<Mention[]>(value);
+  }
+}
+
+export class LargeTransferAlertLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): LargeTransferAlert[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<LargeTransferAlert[]>(value);
+  }
+}
+
+export class TokenTransferLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): TokenTransfer[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<TokenTransfer[]>(value);
+  }
+}
+
+export class TokenBalanceLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): TokenBalance[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<TokenBalance[]>(value);
+  }
+}
+
+export class AccountLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): Account[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<Account[]>(value);
   }
 }
@@ -0,0 +1,23 @@
+// THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+
+import {
+  Address,
+  DataSourceTemplate,
+  DataSourceContext,
+} from "@graphprotocol/graph-ts";
+
+export class SimpleTransferContractTemplate extends DataSourceTemplate {
+  static create(address: Address): void {
+    DataSourceTemplate.create("SimpleTransferContractTemplate", [
+      address.toHex(),
+    ]);
+  }
+
+  static createWithContext(address: Address, context: DataSourceContext): void {
+    DataSourceTemplate.createWithContext(
+      "SimpleTransferContractTemplate",
+      [address.toHex()],
+      context,
+    );
+  }
+}
@@ -0,0 +1,119 @@
+// THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+
+import {
+  ethereum,
+  JSONValue,
+  TypedMap,
+  Entity,
+  Bytes,
+  Address,
+  BigInt,
+} from "@graphprotocol/graph-ts";
+
+export class ContractRegistered extends ethereum.Event {
+  get params(): ContractRegistered__Params {
+    return new ContractRegistered__Params(this);
+  }
+}
+
+export class ContractRegistered__Params {
+  _event: ContractRegistered;
+
+  constructor(event: ContractRegistered) {
+    this._event = event;
+  }
+
+  get contractAddress(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get registrant(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get name(): string {
+    return this._event.parameters[2].value.toString();
+  }
+}
+
+export class SimpleTransferRegistry extends ethereum.SmartContract {
+  static bind(address: Address): SimpleTransferRegistry {
+    return new SimpleTransferRegistry("SimpleTransferRegistry", address);
+  }
+
+  isRegistered(param0: Address): boolean {
+    let result = super.call("isRegistered", "isRegistered(address):(bool)", [
+      ethereum.Value.fromAddress(param0),
+    ]);
+
+    return result[0].toBoolean();
+  }
+
+  try_isRegistered(param0: Address): ethereum.CallResult<boolean> {
+    let result = super.tryCall("isRegistered", "isRegistered(address):(bool)", [
+      ethereum.Value.fromAddress(param0),
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  totalRegistered(): BigInt {
+    let result = super.call(
+      "totalRegistered",
+      "totalRegistered():(uint256)",
+      [],
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_totalRegistered(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "totalRegistered",
+      "totalRegistered():(uint256)",
+      [],
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+}
+
+export class RegisterCall extends ethereum.Call {
+  get inputs(): RegisterCall__Inputs {
+    return new RegisterCall__Inputs(this);
+  }
+
+  get outputs(): RegisterCall__Outputs {
+    return new RegisterCall__Outputs(this);
+  }
+}
+
+export class RegisterCall__Inputs {
+  _call: RegisterCall;
+
+  constructor(call: RegisterCall) {
+    this._call = call;
+  }
+
+  get contractAddress(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get name(): string {
+    return this._call.inputValues[1].value.toString();
+  }
+}
+
+export class RegisterCall__Outputs {
+  _call: RegisterCall;
+
+  constructor(call: RegisterCall) {
+    this._call = call;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * 账户模块 - Account 实体的创建与活动维护
+ *
+ * 🎯 核心功能：
+ * - 提供所有数据源共用的 getOrCreateAccount()
+ * - 维护账户的首次/最近一次活动区间
+ * - 维护账户每日快照（AccountDaySnapshot），记录每个活跃日结束时的累计统计
+ *
+ * 💡 为什么单独成文件？
+ * - 静态数据源与登记合约的模板数据源共用同一套账户逻辑
+ * - 保证同一地址在不同部署中对应同一个 Account 实体
+ * - ERC-20 数据源的地址记录在 TokenHolder 中，不创建 Account
+ */
+
+// The Graph TypeScript SDK 核心模块
+import {
+  BigInt, // 大整数类型，用于处理区块链数值
+  log, // 日志工具，用于调试和监控
+  Address, // 以太坊地址类型
+} from "@graphprotocol/graph-ts";
+
+import { Account, AccountDaySnapshot } from "../generated/schema";
+
+// ==================== 常量 ====================
+
+const SECONDS_PER_DAY = 86400;
+
+// ==================== 工具函数 ====================
+
+/**
+ * 获取或创建账户实体的辅助函数
+ *
+ * 🎯 功能目的：
+ * - 实现账户实体的单例模式
+ * - 确保每个地址只有一个对应的 Account 实体
+ * - 自动初始化新账户的默认属性
+ * - 维护数据一致性
+ *
+ * 📊 数据处理流程：
+ * 1. 尝试从图数据库加载现有账户
+ * 2. 如果账户不存在，创建新账户实体
+ * 3. 设置账户的基本属性
+ * 4. 保存到图数据库
+ * 5. 返回账户实体供后续使用
+ *
+ * 🔧 技术实现：
+ * - 使用 Account.load() 进行实体查找
+ * - 使用构造函数 new Account() 创建新实体
+ * - 使用 .save() 持久化到数据库
+ * - 类型断言确保返回正确类型
+ *
+ * 💡 设计模式：
+ * - 单例模式：确保每个地址只有一个账户实体
+ * - 懒加载：只在需要时创建账户
+ * - 原子操作：创建和初始化在同一个函数中完成
+ *
+ * 📝 参数说明：
+ * @param address - 以太坊地址字符串（hex 格式）
+ * @returns Account 实体对象
+ *
+ * ⚡ 性能考虑：
+ * - 频繁调用的函数，需要高效的数据库操作
+ * - load() 操作有缓存机制，重复查询性能较好
+ * - 新建账户时才执行 save() 操作
+ */
+export function getOrCreateAccount(address: string): Account {
+  // 尝试从数据库加载现有账户
+  let account = Account.load(address);
+
+  // 如果账户不存在，创建新账户
+  if (account === null) {
+    log.info("Creating new account for address {}", [address]);
+
+    account = new Account(address); // 创建新实体，ID 为地址
+    account.address = Address.fromString(address); // 设置地址字段
+    account.recordCount = BigInt.fromI32(0); // 初始化转账记录计数
+    account.sentCount = BigInt.fromI32(0); // 初始化发送次数
+    account.receivedCount = BigInt.fromI32(0); // 初始化接收次数
+    account.selfTransferCount = BigInt.fromI32(0); // 初始化自转账次数
+    account.totalSent = BigInt.fromI32(0); // 初始化累计发送金额
+    account.totalReceived = BigInt.fromI32(0); // 初始化累计接收金额
+    account.netFlow = BigInt.fromI32(0); // 初始化净流入
+    account.firstActivityBlock = BigInt.fromI32(0); // 首次活动区块，0 表示尚无活动
+    account.firstActivityTimestamp = BigInt.fromI32(0);
+    account.lastActivityBlock = BigInt.fromI32(0);
+    account.lastActivityTimestamp = BigInt.fromI32(0);
+    account.uniqueCounterpartyCount = BigInt.fromI32(0); // 初始化唯一交易对手数
+    account.possibleDuplicateCount = BigInt.fromI32(0); // 初始化疑似重复提交次数
+    account.save(); // 持久化到数据库
+  }
+
+  return account; // 类型系统已经确保正确类型
+}
+
+/**
+ * 记录账户的活动区间（首次/最近一次参与转账）
+ *
+ * 💡 说明：
+ * - firstActivityBlock 为 0 表示账户尚未参与过转账
+ * - 调用方负责在之后保存账户实体
+ *
+ * @param account - 要更新的账户实体
+ * @param blockNumber - 转账所在区块号
+ * @param timestamp - 转账时间戳
+ */
+export function recordAccountActivity(
+  account: Account,
+  blockNumber: BigInt,
+  timestamp: BigInt
+): void {
+  if (account.firstActivityBlock.isZero()) {
+    account.firstActivityBlock = blockNumber;
+    account.firstActivityTimestamp = timestamp;
+  }
+  account.lastActivityBlock = blockNumber;
+  account.lastActivityTimestamp = timestamp;
+}
+
+/**
+ * 更新账户在转账所在自然日（UTC）的快照
+ *
+ * 📊 数据处理流程：
+ * 1. 按 "账户地址-天序号" 加载或创建快照
+ * 2. 从账户实体复制当前的累计统计（调用方需先更新账户统计）
+ * 3. 按本次转账的方向累加当天的发送/接收次数和金额
+ *
+ * 💡 说明：
+ * - 自转账不调用本函数（不计入当天的发送和接收），只累加账户的 selfTransferCount
+ * - 同一天的多次转账覆盖累计值，因此快照始终反映该天最后一笔转账之后的状态
+ *
+ * @param account - 已更新统计的账户实体
+ * @param isSender - 本次转账中该账户是否为发送方
+ * @param value - 转账金额（Wei）
+ * @param blockNumber - 转账所在区块号
+ * @param timestamp - 转账时间戳
+ */
+export function updateAccountDaySnapshot(
+  account: Account,
+  isSender: boolean,
+  value: BigInt,
+  blockNumber: BigInt,
+  timestamp: BigInt
+): void {
+  const dayId = timestamp.toI32() / SECONDS_PER_DAY;
+  const id = account.id + "-" + dayId.toString();
+
+  let snapshot = AccountDaySnapshot.load(id);
+  if (snapshot === null) {
+    snapshot = new AccountDaySnapshot(id);
+    snapshot.account = account.id;
+    snapshot.dayId = dayId;
+    snapshot.dayStartTimestamp = BigInt.fromI32(dayId * SECONDS_PER_DAY);
+    snapshot.daySentCount = BigInt.fromI32(0);
+    snapshot.dayReceivedCount = BigInt.fromI32(0);
+    snapshot.daySent = BigInt.fromI32(0);
+    snapshot.dayReceived = BigInt.fromI32(0);
+  }
+
+  snapshot.sentCount = account.sentCount;
+  snapshot.receivedCount = account.receivedCount;
+  snapshot.totalSent = account.totalSent;
+  snapshot.totalReceived = account.totalReceived;
+  snapshot.netFlow = account.netFlow;
+
+  if (isSender) {
+    snapshot.daySentCount = snapshot.daySentCount.plus(BigInt.fromI32(1));
+    snapshot.daySent = snapshot.daySent.plus(value);
+  } else {
+    snapshot.dayReceivedCount = snapshot.dayReceivedCount.plus(BigInt.fromI32(1));
+    snapshot.dayReceived = snapshot.dayReceived.plus(value);
+  }
+
+  snapshot.lastUpdatedBlock = blockNumber;
+  snapshot.save();
+}
@@ -0,0 +1,126 @@
+/**
+ * 大额转账预警模块 - 按金额阈值为转账记录生成 LargeTransferAlert
+ *
+ * 🎯 核心功能：
+ * - 按数据源 context 中配置的阈值对转账金额分级
+ * - 金额超过任一阈值时写入 LargeTransferAlert，级别取超过的最高一档
+ *
+ * 💡 配置说明：
+ * - 阈值在 subgraph.template.yaml 数据源的 context.alertTiersEth 中配置（Int 列表，单位 ETH），
+ *   写入实体时换算为 Wei；未配置或格式不对时使用 DEFAULT_ALERT_TIERS
+ * - 阈值个数必须与 ALERT_SEVERITIES 一致；新增级别需同步修改 schema 中的 AlertSeverity
+ * - 修改阈值只需重新生成清单并部署，不用改映射代码
+ */
+
+import { BigInt, dataSource, log, ValueKind } from "@graphprotocol/graph-ts";
+
+import { LargeTransferAlert, TransferRecord } from "../generated/schema";
+
+// ==================== 常量 ====================
+
+// 1 ETH = 10^18 Wei
+const WEI_PER_ETH = BigInt.fromString("1000000000000000000");
+
+// 数据源 context 中预警阈值的键名
+const ALERT_TIERS_KEY = "alertTiersEth";
+
+/**
+ * 默认预警阈值（ETH），与 ALERT_SEVERITIES 一一对应，按从低到高排列
+ */
+const DEFAULT_ALERT_TIERS: i32[] = [1, 10, 100];
+
+/**
+ * 各阈值对应的预警级别（schema 中的 AlertSeverity 枚举值）
+ */
+const ALERT_SEVERITIES: string[] = ["LOW", "MEDIUM", "HIGH"];
+
+// ==================== 工具函数 ====================
+
+/**
+ * 读取数据源 context 中配置的预警阈值
+ *
+ * @returns 按从低到高排列的阈值（ETH）；未配置或配置无效时返回 DEFAULT_ALERT_TIERS
+ */
+function loadAlertTiers(): i32[] {
+  const value = dataSource.context().get(ALERT_TIERS_KEY);
+  if (value === null) {
+    return DEFAULT_ALERT_TIERS;
+  }
+
+  if (value.kind !== ValueKind.ARRAY) {
+    log.warning("Context {} should be a list of Int, using default alert tiers", [ALERT_TIERS_KEY]);
+    return DEFAULT_ALERT_TIERS;
+  }
+
+  const items = value.toArray();
+  if (items.length !== ALERT_SEVERITIES.length) {
+    log.warning("Context {} should have {} tiers, using default alert tiers", [
+      ALERT_TIERS_KEY,
+      ALERT_SEVERITIES.length.toString(),
+    ]);
+    return DEFAULT_ALERT_TIERS;
+  }
+
+  const tiers: i32[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    // 阈值必须为正整数且严格递增，否则级别无法按从高到低匹配
+    if (
+      item.kind !== ValueKind.INT ||
+      item.toI32() <= 0 ||
+      (i > 0 && item.toI32() <= tiers[i - 1])
+    ) {
+      log.warning(
+        "Context {} should be increasing positive Int values, using default alert tiers",
+        [ALERT_TIERS_KEY]
+      );
+      return DEFAULT_ALERT_TIERS;
+    }
+    tiers.push(item.toI32());
+  }
+  return tiers;
+}
+
+// ==================== 预警函数 ====================
+
+/**
+ * 检查转账记录金额，超过阈值时写入大额转账预警
+ *
+ * ⚠️ 必须在转账记录保存之后调用（预警通过 record 字段关联到该记录）
+ *
+ * @param record - 已保存的转账记录
+ * @returns 生成的预警；未超过任何阈值时返回 null
+ */
+export function checkLargeTransfer(record: TransferRecord): LargeTransferAlert | null {
+  const tiers = loadAlertTiers();
+
+  // 从最高一档往下找第一个被超过的阈值
+  for (let i = tiers.length - 1; i >= 0; i--) {
+    const threshold = BigInt.fromI32(tiers[i]).times(WEI_PER_ETH);
+    if (!record.value.gt(threshold)) {
+      continue;
+    }
+
+    const alert = new LargeTransferAlert(record.id);
+    alert.record = record.id;
+    alert.contract = record.contract;
+    alert.severity = ALERT_SEVERITIES[i];
+    alert.threshold = threshold;
+    alert.from = record.from;
+    alert.to = record.to;
+    alert.value = record.value;
+    alert.timestamp = record.timestamp;
+    alert.blockNumber = record.blockNumber;
+    alert.transactionHash = record.transactionHash;
+    alert.save();
+
+    log.info("Large transfer {} flagged as {} (value {})", [
+      record.id,
+      alert.severity,
+      record.value.toString(),
+    ]);
+    return alert;
+  }
+
+  return null;
+}
@@ -0,0 +1,63 @@
+/**
+ * 批量转账模块 - 识别 batchRecordTransfer 产生的转账记录
+ *
+ * 🎯 核心功能：
+ * - 判断一条 TransferRecord 事件是否来自 batchRecordTransfer 调用
+ * - 维护 Batch 实体的大小和总金额，并返回记录在批量中的序号
+ *
+ * 💡 为什么不用 callHandlers？
+ * - 调用处理器依赖节点的 trace API，并非所有网络和索引器都支持
+ * - 同一交易中事件处理器先于调用处理器执行，而 TransferRecord 是不可变实体，
+ *   事后无法再关联到 Batch
+ * - 因此直接检查交易 calldata 的函数选择器
+ */
+
+import { BigInt, ethereum } from "@graphprotocol/graph-ts";
+
+import { Batch } from "../generated/schema";
+
+// batchRecordTransfer(address[],uint256[],string[]) 的函数选择器
+const BATCH_RECORD_TRANSFER_SELECTOR = "0x801375d4";
+
+/**
+ * 判断事件是否由直接调用 batchRecordTransfer 的交易产生
+ *
+ * @param event - SimpleTransferContract 触发的事件
+ * @returns 交易是否直接调用了本合约的 batchRecordTransfer
+ */
+export function isBatchTransaction(event: ethereum.Event): boolean {
+  const to = event.transaction.to;
+  if (to === null || !to.equals(event.address)) {
+    return false;
+  }
+  return event.transaction.input.toHexString().startsWith(BATCH_RECORD_TRANSFER_SELECTOR);
+}
+
+/**
+ * 将一条转账记录计入所属的批量转账
+ *
+ * @param event - SimpleTransferContract 触发的事件
+ * @param sender - 发起方账户 ID
+ * @param value - 该条记录的转账金额（Wei）
+ * @returns 更新后的 Batch 实体，调用方通过 size - 1 得到记录序号
+ */
+export function addToBatch(event: ethereum.Event, sender: string, value: BigInt): Batch {
+  const id = event.transaction.hash.toHexString();
+
+  let batch = Batch.load(id);
+  if (batch === null) {
+    batch = new Batch(id);
+    batch.sender = sender;
+    batch.transactionHash = event.transaction.hash;
+    batch.size = 0;
+    batch.totalValue = BigInt.fromI32(0);
+    batch.blockNumber = event.block.number;
+    batch.timestamp = event.block.timestamp;
+  }
+
+  batch.size = batch.size + 1;
+  batch.totalValue = batch.totalValue.plus(value);
+  batch.save();
+
+  return batch;
+}
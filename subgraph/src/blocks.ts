@@ -0,0 +1,42 @@
+/**
+ * 区块模块 - 维护包含转账活动的 Block 实体
+ *
+ * 🎯 核心功能：
+ * - 在处理转账记录时写入所在区块的基本信息
+ * - 累计区块中的转账记录数
+ *
+ * 💡 为什么不用 blockHandlers？
+ * - 无过滤的区块处理器会为每个区块触发，索引成本高
+ * - 这里只关心包含转账活动的区块，由事件处理器顺带写入即可
+ */
+
+import { BigInt, ethereum } from "@graphprotocol/graph-ts";
+
+import { Block } from "../generated/schema";
+
+/**
+ * 将一条转账记录计入所在区块
+ *
+ * @param block - 事件所在的区块
+ * @returns 更新后的 Block 实体
+ */
+export function recordBlockTransfer(block: ethereum.Block): Block {
+  const id = block.hash.toHexString();
+
+  let entity = Block.load(id);
+  if (entity === null) {
+    entity = new Block(id);
+    entity.number = block.number;
+    entity.hash = block.hash;
+    entity.parentHash = block.parentHash;
+    entity.timestamp = block.timestamp;
+    entity.gasUsed = block.gasUsed;
+    entity.gasLimit = block.gasLimit;
+    entity.transferCount = BigInt.fromI32(0);
+  }
+
+  entity.transferCount = entity.transferCount.plus(BigInt.fromI32(1));
+  entity.save();
+
+  return entity;
+}
@@ -0,0 +1,86 @@
+/**
+ * 转账分类模块 - 计算 TransferRecord.kind
+ *
+ * 🎯 核心功能：
+ * - SELF: 发送方与接收方为同一地址
+ * - CONTRACT_RECIPIENT: 接收方是合约（本 Subgraph 索引的合约，或链上部署了代码的地址）
+ * - NORMAL: 其余转账
+ *
+ * 💡 合约判断：
+ * - 先查本 Subgraph 已索引的合约部署和代币实体，命中时不需要节点调用
+ * - 其余地址由 handleRecipientCode 通过 ethereum.hasCode() 查询，结果缓存在 AddressCode 实体中，
+ *   每个地址只查询一次；清单中该处理器排在 handleTransferRecord 之前，分类时直接读取缓存
+ * - classifyTransfer 只读取实体，不发起节点调用（Matchstick 不支持 hasCode，测试通过写入 AddressCode 覆盖）
+ */
+
+import { Address, BigInt, ethereum } from "@graphprotocol/graph-ts";
+
+import { AddressCode, Token, TransferContract } from "../generated/schema";
+
+// ==================== 常量 ====================
+
+// schema 中 TransferKind 枚举的取值
+export const KIND_NORMAL = "NORMAL";
+export const KIND_SELF = "SELF";
+export const KIND_CONTRACT_RECIPIENT = "CONTRACT_RECIPIENT";
+
+// ==================== 工具函数 ====================
+
+/**
+ * 判断地址是否为本 Subgraph 索引的合约
+ *
+ * @param address - 要检查的地址
+ * @returns 是否为已知的 SimpleTransferContract 部署或 ERC-20 代币
+ */
+function isIndexedContract(address: Address): boolean {
+  const id = address.toHexString();
+  return TransferContract.load(id) !== null || Token.load(id) !== null;
+}
+
+// ==================== 代码查询 ====================
+
+/**
+ * 查询并缓存接收方是否部署了代码
+ *
+ * 📝 说明：
+ * - 自转账、已索引的合约和已缓存的地址直接跳过，不发起节点调用
+ * - 之后才部署代码的地址（如 CREATE2 预先计算的地址）仍按首次查询结果分类
+ *
+ * @param from - 发送方地址
+ * @param to - 接收方地址
+ * @param blockNumber - 查询所在区块号
+ */
+export function recordRecipientCode(from: Address, to: Address, blockNumber: BigInt): void {
+  const id = to.toHexString();
+  if (from.equals(to) || isIndexedContract(to) || AddressCode.load(id) !== null) {
+    return;
+  }
+
+  const code = new AddressCode(id);
+  code.hasCode = ethereum.hasCode(to).inner;
+  code.checkedAtBlock = blockNumber;
+  code.save();
+}
+
+// ==================== 分类函数 ====================
+
+/**
+ * 计算转账类型
+ *
+ * ⚠️ 依赖 recordRecipientCode 写入的 AddressCode；没有缓存的未索引地址归为 NORMAL
+ *
+ * @param from - 发送方地址
+ * @param to - 接收方地址
+ * @returns TransferKind 枚举值
+ */
+export function classifyTransfer(from: Address, to: Address): string {
+  if (from.equals(to)) {
+    return KIND_SELF;
+  }
+  if (isIndexedContract(to)) {
+    return KIND_CONTRACT_RECIPIENT;
+  }
+
+  const code = AddressCode.load(to.toHexString());
+  return code !== null && code.hasCode ? KIND_CONTRACT_RECIPIENT : KIND_NORMAL;
+}
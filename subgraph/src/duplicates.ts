@@ -0,0 +1,115 @@
+/**
+ * 重复提交检测模块 - 识别短时间内内容完全相同的转账记录
+ *
+ * 🎯 核心功能：
+ * - 按 (合约, 发送方, 接收方, 金额, 备注) 计算转账指纹，维护 TransferFingerprint 实体
+ * - 同一指纹在检测窗口（区块数）内再次出现时，视为疑似重复提交
+ * - 疑似重复的记录通过 possibleDuplicateOf 指向前一条相同记录，并累加发送方的 possibleDuplicateCount
+ *
+ * 💡 设计说明：
+ * - 典型场景是前端重复点击提交，两笔交易通常相隔几个区块
+ * - 连续多次重复时每条记录指向紧邻的前一条，沿 possibleDuplicateOf 可追溯到最初的记录
+ * - 同一批量调用中的多条记录也会参与检测（批量中有完全相同的条目同样可疑）
+ * - 指纹包含合约地址，不同部署中内容相同的转账互不影响
+ * - 检测窗口在数据源 context 的 duplicateBlockWindow 中配置，未配置时使用 DEFAULT_DUPLICATE_BLOCK_WINDOW
+ */
+
+import {
+  BigInt,
+  Bytes,
+  crypto,
+  dataSource,
+  ethereum,
+  log,
+  ValueKind,
+} from "@graphprotocol/graph-ts";
+
+import { Account, TransferFingerprint, TransferRecord } from "../generated/schema";
+
+// ==================== 常量 ====================
+
+// 数据源 context 中检测窗口的键名
+const DUPLICATE_BLOCK_WINDOW_KEY = "duplicateBlockWindow";
+
+// 默认检测窗口（区块数）：与前一条相同记录相隔不超过该区块数时视为疑似重复
+const DEFAULT_DUPLICATE_BLOCK_WINDOW = 20;
+
+// ==================== 工具函数 ====================
+
+/**
+ * 读取数据源 context 中配置的检测窗口
+ *
+ * @returns 检测窗口（区块数）；未配置或配置无效时返回 DEFAULT_DUPLICATE_BLOCK_WINDOW
+ */
+function loadDuplicateBlockWindow(): i32 {
+  const value = dataSource.context().get(DUPLICATE_BLOCK_WINDOW_KEY);
+  if (value === null) {
+    return DEFAULT_DUPLICATE_BLOCK_WINDOW;
+  }
+
+  if (value.kind !== ValueKind.INT || value.toI32() < 0) {
+    log.warning("Context {} should be a non-negative Int, using default window", [
+      DUPLICATE_BLOCK_WINDOW_KEY,
+    ]);
+    return DEFAULT_DUPLICATE_BLOCK_WINDOW;
+  }
+  return value.toI32();
+}
+
+/**
+ * 计算转账指纹
+ *
+ * @param record - 转账记录（需已设置 contract / from / to / value / message）
+ * @returns keccak256(contract, from, to, value, message) 的十六进制字符串
+ */
+function fingerprintId(record: TransferRecord): string {
+  // 静态类型的编码不会失败，结果一定非空
+  const encodedValue = ethereum.encode(ethereum.Value.fromUnsignedBigInt(record.value)) as Bytes;
+  const packed = Bytes.fromHexString(record.contract)
+    .concat(Bytes.fromHexString(record.from))
+    .concat(Bytes.fromHexString(record.to))
+    .concat(encodedValue)
+    .concat(Bytes.fromUTF8(record.message));
+  return Bytes.fromByteArray(crypto.keccak256(packed)).toHexString();
+}
+
+// ==================== 检测函数 ====================
+
+/**
+ * 检测转账记录是否为疑似重复提交，并更新转账指纹
+ *
+ * ⚠️ 在转账记录保存之前调用，由调用方把返回值写入 possibleDuplicateOf
+ *
+ * @param record - 尚未保存的转账记录（需已设置 contract / from / to / value / message / blockNumber）
+ * @returns 疑似重复时返回前一条相同记录的 ID，否则返回 null
+ */
+export function detectDuplicate(record: TransferRecord): string | null {
+  const id = fingerprintId(record);
+  let fingerprint = TransferFingerprint.load(id);
+  let duplicateOf: string | null = null;
+
+  if (fingerprint === null) {
+    fingerprint = new TransferFingerprint(id);
+    fingerprint.occurrenceCount = BigInt.fromI32(0);
+  } else if (
+    record.blockNumber
+      .minus(fingerprint.lastBlockNumber)
+      .le(BigInt.fromI32(loadDuplicateBlockWindow()))
+  ) {
+    duplicateOf = fingerprint.lastRecord;
+
+    // 发送方账户已由 handleTransferRecord 创建
+    const sender = Account.load(record.from);
+    if (sender !== null) {
+      sender.possibleDuplicateCount = sender.possibleDuplicateCount.plus(BigInt.fromI32(1));
+      sender.save();
+    }
+  }
+
+  fingerprint.lastRecord = record.id;
+  fingerprint.lastBlockNumber = record.blockNumber;
+  fingerprint.occurrenceCount = fingerprint.occurrenceCount.plus(BigInt.fromI32(1));
+  fingerprint.save();
+
+  return duplicateOf;
+}
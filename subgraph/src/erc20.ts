@@ -0,0 +1,191 @@
+/**
+ * ERC-20 代币映射文件 - 处理代币合约的 Transfer 事件
+ *
+ * 🎯 核心功能：
+ * - 为 subgraph.yaml 中配置的每个代币数据源记录 TokenTransfer
+ * - 维护 Token 的转账次数和转账总量
+ * - 按事件金额增减维护发送方和接收方的 TokenBalance
+ *
+ * 📊 数据模型：
+ * - Token: 代币合约
+ * - TokenTransfer: 一次代币转账（不可变）
+ * - TokenBalance: 持有者的代币余额
+ * - TokenHolder: 代币持有者，与 SimpleTransferContract 的 Account 分开，
+ *   只持有代币的地址不会出现在账户查询和排行榜中
+ *
+ * 💡 零地址处理：
+ * - 铸造（from = 0x0）和销毁（to = 0x0）同样记录为 TokenTransfer，对应一方为空
+ * - 零地址不创建 TokenHolder，也不维护 TokenBalance
+ *
+ * ⚡ 余额来源：
+ * - 默认不发起合约调用，余额为 startBlock 之后的事件增减累计
+ * - 数据源 context 的 balanceOfCalls 为 true 时改为调用 balanceOf() 读取链上余额
+ *   （每个事件最多两次 eth_call，适合 startBlock 之前已有大量持有者的代币）
+ */
+
+import { Address, BigInt, dataSource, ethereum, log, ValueKind } from "@graphprotocol/graph-ts";
+
+import { Token, TokenBalance, TokenHolder, TokenTransfer } from "../generated/schema";
+
+/*
+ * 所有代币数据源共用同一份 ABI，生成的类型完全相同
+ * 与 registry.ts 一样从 SimpleTransferContractTemplate 的生成目录导入，不依赖具体的代币数据源
+ */
+import {
+  ERC20,
+  Transfer as TransferEvent,
+} from "../generated/templates/SimpleTransferContractTemplate/ERC20";
+
+// ==================== 常量 ====================
+
+// 数据源 context 中余额来源开关的键名
+const BALANCE_OF_CALLS_KEY = "balanceOfCalls";
+
+// ==================== 工具函数 ====================
+
+/**
+ * 读取数据源 context 中的余额来源开关
+ *
+ * @returns 是否通过 balanceOf() 读取余额；未配置或配置无效时返回 false
+ */
+function loadBalanceOfCalls(): boolean {
+  const value = dataSource.context().get(BALANCE_OF_CALLS_KEY);
+  if (value === null) {
+    return false;
+  }
+
+  if (value.kind !== ValueKind.BOOL) {
+    log.warning("Context {} should be a Bool, deriving balances from events", [
+      BALANCE_OF_CALLS_KEY,
+    ]);
+    return false;
+  }
+  return value.toBoolean();
+}
+
+/**
+ * 获取或创建代币实体
+ *
+ * @param address - 代币合约地址
+ * @returns Token 实体对象（新建时尚未保存，由调用方统一保存）
+ */
+function getOrCreateToken(address: Address): Token {
+  const id = address.toHexString();
+  let token = Token.load(id);
+
+  if (token === null) {
+    token = new Token(id);
+    token.address = address;
+    token.transferCount = BigInt.fromI32(0);
+    token.totalVolume = BigInt.fromI32(0);
+    token.lastTransferBlock = BigInt.fromI32(0);
+    token.lastTransferTimestamp = BigInt.fromI32(0);
+  }
+
+  return token;
+}
+
+/**
+ * 获取或创建代币持有者实体
+ *
+ * @param address - 持有者地址
+ * @returns TokenHolder 的 ID；零地址返回 null
+ */
+function getOrCreateTokenHolder(address: Address): string | null {
+  // 零地址只是铸造/销毁的占位，不是真实的持有者
+  if (address.equals(Address.zero())) {
+    return null;
+  }
+
+  const id = address.toHexString();
+  if (TokenHolder.load(id) === null) {
+    const holder = new TokenHolder(id);
+    holder.address = address;
+    holder.save();
+  }
+  return id;
+}
+
+/**
+ * 更新某持有者的代币余额
+ *
+ * @param contract - 绑定到代币地址的 ERC20 合约实例；为 null 时按事件金额增减
+ * @param token - 代币实体
+ * @param holderId - 持有者 ID，为 null（零地址）时跳过
+ * @param delta - 本次转账对该持有者余额的变化量
+ * @param block - 事件所在区块
+ */
+function updateTokenBalance(
+  contract: ERC20 | null,
+  token: Token,
+  holderId: string | null,
+  delta: BigInt,
+  block: ethereum.Block
+): void {
+  if (holderId === null) {
+    return;
+  }
+
+  const id = token.id + "-" + holderId;
+  let balance = TokenBalance.load(id);
+  if (balance === null) {
+    balance = new TokenBalance(id);
+    balance.token = token.id;
+    balance.holder = holderId;
+    balance.balance = BigInt.fromI32(0);
+  }
+
+  balance.balance = balance.balance.plus(delta);
+  if (contract !== null) {
+    // 调用回滚时保留按事件增减的结果
+    const result = contract.try_balanceOf(Address.fromString(holderId));
+    if (!result.reverted) {
+      balance.balance = result.value;
+    }
+  }
+
+  balance.lastUpdatedBlock = block.number;
+  balance.lastUpdatedTimestamp = block.timestamp;
+  balance.save();
+}
+
+// ==================== 事件处理函数 ====================
+
+/**
+ * 处理 ERC-20 代币的 Transfer 事件
+ *
+ * 📊 数据处理流程：
+ * 1. 获取或创建 Token 实体并更新统计
+ * 2. 获取或创建发送方、接收方 TokenHolder（零地址除外）
+ * 3. 创建 TokenTransfer 实体
+ * 4. 更新双方的 TokenBalance
+ *
+ * @param event - 代币合约触发的 Transfer 事件
+ */
+export function handleTokenTransfer(event: TransferEvent): void {
+  const token = getOrCreateToken(event.address);
+  token.transferCount = token.transferCount.plus(BigInt.fromI32(1));
+  token.totalVolume = token.totalVolume.plus(event.params.value);
+  token.lastTransferBlock = event.block.number;
+  token.lastTransferTimestamp = event.block.timestamp;
+  token.save();
+
+  const fromId = getOrCreateTokenHolder(event.params.from);
+  const toId = getOrCreateTokenHolder(event.params.to);
+
+  const transfer = new TokenTransfer(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  );
+  transfer.token = token.id;
+  transfer.from = fromId;
+  transfer.to = toId;
+  transfer.value = event.params.value;
+  transfer.timestamp = event.block.timestamp;
+  transfer.blockNumber = event.block.number;
+  transfer.transactionHash = event.transaction.hash;
+  transfer.save();
+
+  const contract = loadBalanceOfCalls() ? ERC20.bind(event.address) : null;
+  updateTokenBalance(contract, token, fromId, event.params.value.neg(), event.block);
+  updateTokenBalance(contract, token, toId, event.params.value, event.block);
+}
@@ -0,0 +1,109 @@
+/**
+ * 排行榜模块 - 维护发送方/接收方排行榜条目
+ *
+ * 🎯 核心功能：
+ * - 按统计窗口（全部历史、最近 7 天、最近 30 天）累计账户的发送/接收次数和金额
+ * - 写入 LeaderboardEntry 实体，前端按金额或次数排序即可得到排行榜
+ *
+ * 💡 滚动窗口实现：
+ * - 映射中无法在窗口过期时"减去"旧数据，因此按窗口最后一天建条目
+ * - 第 D 天的转账计入结束于 D, D+1, ..., D+N-1 的 N 个窗口
+ * - 查询"最近 N 天"时只需取 windowEndDay 为当天的条目，其中恰好包含最近 N 天的转账
+ */
+
+import { BigInt } from "@graphprotocol/graph-ts";
+
+import { LeaderboardEntry } from "../generated/schema";
+
+// ==================== 常量 ====================
+
+const SECONDS_PER_DAY = 86400;
+
+const WINDOW_ALL_TIME = "ALL_TIME";
+const WINDOW_LAST_7_DAYS = "LAST_7_DAYS";
+const WINDOW_LAST_30_DAYS = "LAST_30_DAYS";
+
+// ==================== 工具函数 ====================
+
+/**
+ * 把一笔转账计入账户在某个窗口的排行榜条目
+ *
+ * 💡 每次都重新加载条目：自转账时同一条目会先后作为发送方和接收方更新
+ *
+ * @param window - 统计窗口（LeaderboardWindow 枚举值）
+ * @param windowEndDay - 窗口最后一天的天序号（ALL_TIME 为 0）
+ * @param account - 账户 ID
+ * @param isSender - 该账户是否为发送方
+ * @param value - 转账金额（Wei）
+ */
+function updateEntry(
+  window: string,
+  windowEndDay: i32,
+  account: string,
+  isSender: boolean,
+  value: BigInt
+): void {
+  const id = window + "-" + windowEndDay.toString() + "-" + account;
+
+  let entry = LeaderboardEntry.load(id);
+  if (entry === null) {
+    entry = new LeaderboardEntry(id);
+    entry.window = window;
+    entry.windowEndDay = windowEndDay;
+    entry.account = account;
+    entry.sentCount = BigInt.fromI32(0);
+    entry.sentVolume = BigInt.fromI32(0);
+    entry.receivedCount = BigInt.fromI32(0);
+    entry.receivedVolume = BigInt.fromI32(0);
+  }
+
+  if (isSender) {
+    entry.sentCount = entry.sentCount.plus(BigInt.fromI32(1));
+    entry.sentVolume = entry.sentVolume.plus(value);
+  } else {
+    entry.receivedCount = entry.receivedCount.plus(BigInt.fromI32(1));
+    entry.receivedVolume = entry.receivedVolume.plus(value);
+  }
+
+  entry.save();
+}
+
+/**
+ * 把一笔转账计入账户在全部窗口的排行榜条目
+ *
+ * @param account - 账户 ID
+ * @param isSender - 该账户是否为发送方
+ * @param value - 转账金额（Wei）
+ * @param dayId - 转账所在的天序号
+ */
+function updateAccountEntries(account: string, isSender: boolean, value: BigInt, dayId: i32): void {
+  updateEntry(WINDOW_ALL_TIME, 0, account, isSender, value);
+
+  for (let endDay = dayId; endDay < dayId + 7; endDay++) {
+    updateEntry(WINDOW_LAST_7_DAYS, endDay, account, isSender, value);
+  }
+  for (let endDay = dayId; endDay < dayId + 30; endDay++) {
+    updateEntry(WINDOW_LAST_30_DAYS, endDay, account, isSender, value);
+  }
+}
+
+// ==================== 排行榜更新函数 ====================
+
+/**
+ * 更新一笔转账的发送方和接收方排行榜条目
+ *
+ * @param from - 发送方账户 ID
+ * @param to - 接收方账户 ID
+ * @param value - 转账金额（Wei）
+ * @param timestamp - 转账时间戳
+ */
+export function updateLeaderboards(
+  from: string,
+  to: string,
+  value: BigInt,
+  timestamp: BigInt
+): void {
+  const dayId = timestamp.toI32() / SECONDS_PER_DAY;
+  updateAccountEntries(from, true, value, dayId);
+  updateAccountEntries(to, false, value, dayId);
+}
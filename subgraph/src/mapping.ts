@@ -9,7 +9,19 @@
  *
  * 📊 数据模型：
  * - Account: 以太坊账户实体
+ * - AccountDaySnapshot: 账户每个活跃日结束时的累计统计快照
  * - TransferRecord: 转账记录实体
+ * - DailyTransferStat / HourlyTransferStat: 按天/小时聚合的转账统计
+ * - TransferDataPoint: 转账时间序列，由 graph-node 聚合为 TransferVolume 等实体
+ * - AccountPair: 两个地址之间的有向转账关系
+ * - Batch: 一次 batchRecordTransfer 调用产生的转账记录分组
+ * - Block: 包含转账活动的区块
+ * - Transaction: 产生转账记录的交易（含 Gas 和手续费）
+ * - LargeTransferAlert: 金额超过预警阈值的大额转账预警
+ * - MessageTag / Mention: 从备注中解析出的 #标签 和 @地址 提及（re:<recordId> 写入 replyTo）
+ * - LeaderboardEntry: 全部历史、最近 7 天、最近 30 天的发送方/接收方排行榜
+ * - Protocol: 全局统计单例（汇总各合约部署的对账结果）
+ * - TransferContract: 被索引的合约部署（静态配置或通过 SimpleTransferRegistry 登记）
  * - 一对多关系：一个账户可以有多个转账记录
  *
  * 🔧 技术特点：
@@ -30,7 +42,6 @@
 import {
   BigInt, // 大整数类型，用于处理区块链数值
   log, // 日志工具，用于调试和监控
-  Address, // 以太坊地址类型
 } from "@graphprotocol/graph-ts";
 
 /*
@@ -38,7 +49,6 @@ import {
  * 这些类型是根据 schema.graphql 自动生成的
  */
 import {
-  Account, // 账户实体：代表以太坊地址
   TransferRecord, // 转账记录实体：代表一次转账操作
 } from "../generated/schema";
 
@@ -48,65 +58,54 @@ import {
  */
 import {
   TransferRecord as TransferRecordEvent, // 智能合约的 TransferRecord 事件类型
-} from "../generated/SimpleTransferContract/SimpleTransferContract";
+} from "../generated/templates/SimpleTransferContractTemplate/SimpleTransferContract";
 
-// ==================== 工具函数 ====================
+// 账户实体的获取/创建、活动区间与每日快照维护
+import { getOrCreateAccount, recordAccountActivity, updateAccountDaySnapshot } from "./accounts";
+// 时间桶统计更新函数
+import {
+  recordTransferDataPoint,
+  updateDailyTransferStat,
+  updateHourlyTransferStat,
+} from "./stats";
+// 账户对（交易对手关系）更新函数
+import { updateAccountPair } from "./pairs";
+// 批量转账识别与分组
+import { addToBatch, isBatchTransaction } from "./batches";
+// 区块实体维护
+import { recordBlockTransfer } from "./blocks";
+// 交易实体维护
+import { recordTransaction } from "./transactions";
+// 全局统计与合约对账
+import { updateProtocol } from "./protocol";
+// 记录ID校验
+import { verifyRecordId } from "./verification";
+// 合约部署实体
+import { getOrCreateTransferContract } from "./registry";
+// 大额转账预警
+import { checkLargeTransfer } from "./alerts";
+// 重复提交检测
+import { detectDuplicate } from "./duplicates";
+// 备注解析（标签、提及、回复）
+import { applyMemo, indexRecordId } from "./memos";
+// 发送方/接收方排行榜
+import { updateLeaderboards } from "./leaderboards";
+// 转账分类（普通 / 自转账 / 转给合约）
+import { classifyTransfer, recordRecipientCode } from "./classification";
+
+// ==================== 事件处理函数 ====================
 
 /**
- * 获取或创建账户实体的辅助函数
- *
- * 🎯 功能目的：
- * - 实现账户实体的单例模式
- * - 确保每个地址只有一个对应的 Account 实体
- * - 自动初始化新账户的默认属性
- * - 维护数据一致性
- *
- * 📊 数据处理流程：
- * 1. 尝试从图数据库加载现有账户
- * 2. 如果账户不存在，创建新账户实体
- * 3. 设置账户的基本属性
- * 4. 保存到图数据库
- * 5. 返回账户实体供后续使用
- *
- * 🔧 技术实现：
- * - 使用 Account.load() 进行实体查找
- * - 使用构造函数 new Account() 创建新实体
- * - 使用 .save() 持久化到数据库
- * - 类型断言确保返回正确类型
- *
- * 💡 设计模式：
- * - 单例模式：确保每个地址只有一个账户实体
- * - 懒加载：只在需要时创建账户
- * - 原子操作：创建和初始化在同一个函数中完成
+ * 查询 TransferRecord 事件接收方是否部署了代码
  *
- * 📝 参数说明：
- * @param address - 以太坊地址字符串（hex 格式）
- * @returns Account 实体对象
+ * ⚠️ 清单中必须排在同一事件的 handleTransferRecord 之前，分类时读取本处理器写入的 AddressCode
  *
- * ⚡ 性能考虑：
- * - 频繁调用的函数，需要高效的数据库操作
- * - load() 操作有缓存机制，重复查询性能较好
- * - 新建账户时才执行 save() 操作
+ * @param event - 合约触发的 TransferRecord 事件
  */
-function getOrCreateAccount(address: string): Account {
-  // 尝试从数据库加载现有账户
-  let account = Account.load(address);
-
-  // 如果账户不存在，创建新账户
-  if (account === null) {
-    log.info("Creating new account for address {}", [address]);
-
-    account = new Account(address); // 创建新实体，ID 为地址
-    account.address = Address.fromString(address); // 设置地址字段
-    account.recordCount = BigInt.fromI32(0); // 初始化转账记录计数
-    account.save(); // 持久化到数据库
-  }
-
-  return account; // 类型系统已经确保正确类型
+export function handleRecipientCode(event: TransferRecordEvent): void {
+  recordRecipientCode(event.params.from, event.params.to, event.block.number);
 }
 
-// ==================== 事件处理函数 ====================
-
 /**
  * 处理智能合约的 TransferRecord 事件
  *
@@ -117,14 +116,18 @@ function getOrCreateAccount(address: string): Account {
  * - 更新相关实体的统计信息
  *
  * 📊 数据处理流程：
- * 1. 记录事件处理开始的日志
- * 2. 获取或创建发送方账户实体
+ * 1. 记录事件处理开始的日志，获取或创建所属合约部署实体
+ * 2. 计算转账类型（kind），获取或创建发送方账户实体
  * 3. 获取或创建接收方账户实体
  * 4. 创建新的转账记录实体
- * 5. 设置转账记录的所有属性
- * 6. 更新发送方的统计数据
- * 7. 保存所有更改到数据库
- * 8. 记录事件处理完成的日志
+ * 5. 设置转账记录的所有属性（关联 Block 和 Transaction，批量调用时关联 Batch）
+ * 6. 按合约规则校验 recordId 并记录序号，检测是否为疑似重复提交，解析备注中的标签、提及和回复
+ * 7. 更新发送方和接收方的统计数据及当天的账户快照（自转账只累计 selfTransferCount）
+ * 8. 保存所有更改到数据库
+ * 9. 更新账户对（交易对手）关系，金额超过阈值时写入大额转账预警
+ * 10. 更新 Protocol 与所属合约部署的统计，并按间隔对账
+ * 11. 更新每日/每小时转账统计和排行榜，写入时间序列数据点
+ * 12. 记录事件处理完成的日志
  *
  * 🔗 关系建立：
  * - TransferRecord.from → Account (多对一)
@@ -138,7 +141,12 @@ function getOrCreateAccount(address: string): Account {
  * - 避免重复处理相同事件
  *
  * 📈 统计信息维护：
- * - 更新发送方账户的转账次数计数
+ * - 更新发送方账户的转账次数、发送金额和净流出
+ * - 更新接收方账户的接收次数、接收金额和净流入
+ * - 记录双方的首次/最近一次活动区块和时间
+ * - 更新双方当天的 AccountDaySnapshot 累计快照
+ * - 更新 AccountPair 有向关系及双方的唯一交易对手计数
+ * - 更新 DailyTransferStat / HourlyTransferStat 时间桶统计
  * - 为后续的分析查询提供聚合数据
  * - 支持按账户查询转账历史
  *
@@ -183,15 +191,78 @@ export function handleTransferRecord(event: TransferRecordEvent): void {
   const fromAddress = event.params.from.toHexString();
   const toAddress = event.params.to.toHexString();
 
+  const transferValue = event.params.transferValue;
+
+  // 静态数据源和模板数据源共用本处理函数，通过事件地址区分合约部署
+  const contract = getOrCreateTransferContract(event);
+
+  /*
+   * 计算转账类型
+   * 自转账只作为记录保存：计入记录类数据（TransferRecord、账户 recordCount / selfTransferCount、
+   * 全局和合约部署的记录总数），不计入任何资金流动统计（账户发送/接收、每日快照、账户对、
+   * 时间序列聚合、每日/每小时统计和排行榜）
+   */
+  const kind = classifyTransfer(event.params.from, event.params.to);
+  const isSelfTransfer = event.params.from.equals(event.params.to);
+
   // 获取或创建发送方账户实体
   let fromAccount = getOrCreateAccount(fromAddress);
-  // 更新发送方的转账记录计数（统计信息）
+  // 在更新前记录是否首次参与，用于全局唯一账户统计（自转账不算发送方/接收方）
+  const isNewSender = !isSelfTransfer && fromAccount.sentCount.isZero();
+  let newAccountCount = fromAccount.firstActivityBlock.isZero() ? 1 : 0;
+  if (fromAccount.contract === null) {
+    fromAccount.contract = contract.id;
+  }
+  // 更新发送方的转账记录计数和发送统计
   fromAccount.recordCount = fromAccount.recordCount.plus(BigInt.fromI32(1));
+  if (isSelfTransfer) {
+    fromAccount.selfTransferCount = fromAccount.selfTransferCount.plus(BigInt.fromI32(1));
+  } else {
+    fromAccount.sentCount = fromAccount.sentCount.plus(BigInt.fromI32(1));
+    fromAccount.totalSent = fromAccount.totalSent.plus(transferValue);
+    fromAccount.netFlow = fromAccount.netFlow.minus(transferValue);
+  }
+  recordAccountActivity(fromAccount, event.block.number, event.params.timestamp);
   fromAccount.save(); // 保存发送方账户的更新
+  if (!isSelfTransfer) {
+    updateAccountDaySnapshot(
+      fromAccount,
+      true,
+      transferValue,
+      event.block.number,
+      event.params.timestamp
+    );
+  }
 
-  // 获取或创建接收方账户实体
+  /*
+   * 获取或创建接收方账户实体
+   * 必须在发送方保存之后再加载：自转账时两者是同一个实体，
+   * 重新加载才能拿到发送方刚写入的统计数据
+   */
   let toAccount = getOrCreateAccount(toAddress);
-  // 注意：这里没有更新接收方的计数，只统计主动发送的次数
+  // 自转账时发送方已写入活动区块，这里不会重复计数
+  const isNewReceiver = !isSelfTransfer && toAccount.receivedCount.isZero();
+  if (toAccount.firstActivityBlock.isZero()) {
+    newAccountCount += 1;
+  }
+  if (toAccount.contract === null) {
+    toAccount.contract = contract.id;
+  }
+  // 更新接收方的接收统计（自转账已在发送方一侧计入 selfTransferCount）
+  if (!isSelfTransfer) {
+    toAccount.receivedCount = toAccount.receivedCount.plus(BigInt.fromI32(1));
+    toAccount.totalReceived = toAccount.totalReceived.plus(transferValue);
+    toAccount.netFlow = toAccount.netFlow.plus(transferValue);
+    recordAccountActivity(toAccount, event.block.number, event.params.timestamp);
+    toAccount.save(); // 保存接收方账户的更新
+    updateAccountDaySnapshot(
+      toAccount,
+      false,
+      transferValue,
+      event.block.number,
+      event.params.timestamp
+    );
+  }
 
   /*
    * 创建转账记录实体
@@ -201,17 +272,82 @@ export function handleTransferRecord(event: TransferRecordEvent): void {
   let transferRecord = new TransferRecord(transferRecordId);
 
   // 设置转账记录的所有属性
+  transferRecord.contract = contract.id; // 关联到合约部署
+  transferRecord.kind = kind; // 转账类型（普通 / 自转账 / 转给合约）
   transferRecord.recordId = event.params.recordId; // 智能合约中的记录ID
   transferRecord.from = fromAccount.id; // 关联到发送方账户
   transferRecord.to = toAccount.id; // 关联到接收方账户
-  transferRecord.value = event.params.transferValue; // 转账金额
+  transferRecord.value = transferValue; // 转账金额
   transferRecord.message = event.params.message; // 转账备注
   transferRecord.timestamp = event.params.timestamp; // 转账时间戳
   transferRecord.blockNumber = event.block.number; // 区块号
+  transferRecord.block = recordBlockTransfer(event.block).id; // 关联到区块实体
   transferRecord.transactionHash = event.transaction.hash; // 交易哈希
+  transferRecord.transaction = recordTransaction(event).id; // 关联到交易实体（含 Gas 数据）
+
+  // 校验 recordId（需在 updateProtocol 之前，此时合约部署尚未计入本条记录）
+  const sequenceNumber = verifyRecordId(
+    contract,
+    event.params.from,
+    event.params.to,
+    transferValue,
+    event.params.timestamp,
+    event.params.recordId
+  );
+  transferRecord.recordIdVerified = sequenceNumber !== null;
+  transferRecord.sequenceNumber = sequenceNumber;
+  if (sequenceNumber === null) {
+    log.warning("recordId {} does not match the documented scheme", [
+      event.params.recordId.toHexString(),
+    ]);
+  }
+
+  // 来自 batchRecordTransfer 的记录关联到所属批量，并记录批内序号
+  if (isBatchTransaction(event)) {
+    const batch = addToBatch(event, fromAccount.id, transferValue);
+    transferRecord.batch = batch.id;
+    transferRecord.batchIndex = batch.size - 1;
+  }
+
+  // 短时间内内容完全相同的记录关联到前一条记录，并累加发送方的疑似重复次数
+  transferRecord.possibleDuplicateOf = detectDuplicate(transferRecord);
+
+  // 解析备注中的 #标签、@地址 提及和 re:<recordId> 回复
+  applyMemo(transferRecord);
 
-  // 保存转账记录到数据库
+  // 保存转账记录到数据库，并登记 recordId 供后续回复查找
   transferRecord.save();
+  indexRecordId(transferRecord);
+
+  // 金额超过预警阈值时生成大额转账预警
+  checkLargeTransfer(transferRecord);
+
+  // 更新全局和合约部署统计，并按间隔与合约 totalRecords 对账
+  updateProtocol(event, contract, transferValue, newAccountCount, isNewSender, isNewReceiver);
+
+  // 资金流动统计：自转账不参与
+  if (!isSelfTransfer) {
+    // 更新发送方 → 接收方的账户对关系
+    updateAccountPair(transferRecord);
+
+    // 更新按天/按小时聚合的转账统计，并写入时间序列数据点供原生聚合使用
+    recordTransferDataPoint(fromAccount.id, toAccount.id, transferValue);
+    updateDailyTransferStat(
+      event.params.from,
+      event.params.to,
+      transferRecord.value,
+      transferRecord.timestamp
+    );
+    updateHourlyTransferStat(
+      event.params.from,
+      event.params.to,
+      transferRecord.value,
+      transferRecord.timestamp
+    );
+
+    // 更新全部历史、最近 7 天和最近 30 天的排行榜条目
+    updateLeaderboards(fromAccount.id, toAccount.id, transferValue, transferRecord.timestamp);
+  }
 
   // 记录事件处理完成，输出转账记录ID便于追踪
   log.info("Successfully processed TransferRecord with ID {} at block {}", [
@@ -0,0 +1,262 @@
+/**
+ * 备注解析模块 - 把转账备注解析为标签、提及和回复
+ *
+ * 🎯 核心功能：
+ * - #标签：写入 MessageTag 实体，并通过 TransferRecord.tags 关联
+ * - @0x地址：为每个被提及的地址写入 Mention 实体
+ * - re:<recordId>：通过 RecordIdIndex 找到被回复的记录，写入 TransferRecord.replyTo
+ *
+ * 📝 解析规则：
+ * - 标签和提及必须位于备注开头，或前一个字符不是标签字符（避免匹配 abc#1 这类文本）
+ * - re: 前一个字符不能是英文字母或数字（允许 "回复re:0x..." 这类写法）
+ * - 标签字符：英文字母、数字、_、- 以及除中文/全角标点以外的非 ASCII 字符；英文字母统一转为小写
+ * - 提及必须是完整的 0x + 40 位十六进制地址，回复必须是完整的 0x + 64 位十六进制 recordId
+ * - 同一备注中重复的标签和提及只计一次；只识别第一个 re: 回复
+ */
+
+import { BigInt, Bytes } from "@graphprotocol/graph-ts";
+
+import { MessageTag, Mention, RecordIdIndex, TransferRecord } from "../generated/schema";
+
+import { getOrCreateAccount } from "./accounts";
+
+// ==================== 常量 ====================
+
+// 标签最大长度（不含 #），超过的不视为标签
+const MAX_TAG_LENGTH = 32;
+
+// 地址和 recordId 的十六进制位数（不含 0x）
+const ADDRESS_HEX_LENGTH = 40;
+const RECORD_ID_HEX_LENGTH = 64;
+
+const CHAR_HASH = 35; // #
+const CHAR_AT = 64; // @
+const REPLY_PREFIX = "re:";
+
+// ==================== 解析结果 ====================
+
+/**
+ * 备注解析结果
+ */
+export class ParsedMemo {
+  // 小写、去重后的标签（不含 #）
+  tags: string[] = [];
+  // 小写、去重后的被提及地址
+  mentions: string[] = [];
+  // 第一个 re: 引用的 recordId（小写十六进制），没有时为 null
+  replyTo: string | null = null;
+}
+
+// ==================== 工具函数 ====================
+
+/**
+ * 判断字符是否为 ASCII 字母、数字或下划线
+ *
+ * @param c - 字符编码
+ * @returns 是否为 ASCII 单词字符
+ */
+function isAsciiWordChar(c: i32): boolean {
+  return (c >= 48 && c <= 57) || (c >= 65 && c <= 90) || (c >= 97 && c <= 122) || c === 95;
+}
+
+/**
+ * 判断字符是否可以出现在标签中
+ *
+ * @param c - 字符编码
+ * @returns 是否为标签字符
+ */
+function isTagChar(c: i32): boolean {
+  if (c < 0x80) {
+    return isAsciiWordChar(c) || c === 45;
+  }
+  // 排除中文标点（、。「」等）和全角标点（，！：等）
+  if (c >= 0x3000 && c <= 0x303f) {
+    return false;
+  }
+  if ((c >= 0xff00 && c <= 0xff0f) || (c >= 0xff1a && c <= 0xff20)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 判断字符是否为十六进制数字
+ *
+ * @param c - 字符编码
+ * @returns 是否为 0-9 / a-f / A-F
+ */
+function isHexChar(c: i32): boolean {
+  return (c >= 48 && c <= 57) || (c >= 65 && c <= 70) || (c >= 97 && c <= 102);
+}
+
+/**
+ * 读取从 start 开始的 0x 十六进制串
+ *
+ * @param text - 备注文本
+ * @param start - 0x 所在位置
+ * @param digits - 要求的十六进制位数（不含 0x）
+ * @returns 位数完全匹配时返回小写的十六进制串（含 0x），否则返回 null
+ */
+function readHex(text: string, start: i32, digits: i32): string | null {
+  const end = start + 2 + digits;
+  if (end > text.length) {
+    return null;
+  }
+  if (text.charCodeAt(start) !== 48 || (text.charCodeAt(start + 1) | 0x20) !== 120) {
+    return null;
+  }
+  for (let i = start + 2; i < end; i++) {
+    if (!isHexChar(text.charCodeAt(i))) {
+      return null;
+    }
+  }
+  // 后面紧跟字母或数字说明位数不对
+  if (end < text.length && isAsciiWordChar(text.charCodeAt(end))) {
+    return null;
+  }
+  return text.substring(start, end).toLowerCase();
+}
+
+/**
+ * 解析转账备注
+ *
+ * @param message - 转账备注原文
+ * @returns 解析出的标签、提及和回复
+ */
+export function parseMemo(message: string): ParsedMemo {
+  const memo = new ParsedMemo();
+  const length = message.length;
+  let i = 0;
+
+  while (i < length) {
+    const c = message.charCodeAt(i);
+    const prev = i > 0 ? message.charCodeAt(i - 1) : 0;
+    const atWordStart = i === 0 || !isTagChar(prev);
+
+    if (atWordStart && c === CHAR_HASH) {
+      let end = i + 1;
+      while (end < length && isTagChar(message.charCodeAt(end))) {
+        end++;
+      }
+      const tagLength = end - i - 1;
+      if (tagLength > 0 && tagLength <= MAX_TAG_LENGTH) {
+        const tag = message.substring(i + 1, end).toLowerCase();
+        if (!memo.tags.includes(tag)) {
+          memo.tags.push(tag);
+        }
+      }
+      i = end;
+      continue;
+    }
+
+    if (atWordStart && c === CHAR_AT) {
+      const address = readHex(message, i + 1, ADDRESS_HEX_LENGTH);
+      if (address !== null) {
+        if (!memo.mentions.includes(address)) {
+          memo.mentions.push(address);
+        }
+        i += 1 + address.length;
+        continue;
+      }
+    }
+
+    if (
+      memo.replyTo === null &&
+      !isAsciiWordChar(prev) &&
+      i + REPLY_PREFIX.length <= length &&
+      // 截取的片段与前缀等长，startsWith 即按内容比较（AssemblyScript 中字符串的 === 比较引用）
+      message
+        .substring(i, i + REPLY_PREFIX.length)
+        .toLowerCase()
+        .startsWith(REPLY_PREFIX)
+    ) {
+      const recordId = readHex(message, i + REPLY_PREFIX.length, RECORD_ID_HEX_LENGTH);
+      if (recordId !== null) {
+        memo.replyTo = recordId;
+        i += REPLY_PREFIX.length + recordId.length;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  return memo;
+}
+
+/**
+ * 累计标签的使用次数
+ *
+ * @param name - 小写的标签名
+ * @param timestamp - 转账时间戳
+ */
+function updateMessageTag(name: string, timestamp: BigInt): void {
+  let tag = MessageTag.load(name);
+  if (tag === null) {
+    tag = new MessageTag(name);
+    tag.name = name;
+    tag.recordCount = BigInt.fromI32(0);
+    tag.firstUsedTimestamp = timestamp;
+  }
+
+  tag.recordCount = tag.recordCount.plus(BigInt.fromI32(1));
+  tag.lastUsedTimestamp = timestamp;
+  tag.save();
+}
+
+// ==================== 记录处理函数 ====================
+
+/**
+ * 解析转账记录的备注，写入标签、提及和回复关系
+ *
+ * ⚠️ 在转账记录保存之前调用（会设置 tags / replyToRecordId / replyTo 字段）
+ *
+ * @param record - 尚未保存的转账记录（需已设置 from / message / timestamp / blockNumber）
+ */
+export function applyMemo(record: TransferRecord): void {
+  const memo = parseMemo(record.message);
+
+  for (let i = 0; i < memo.tags.length; i++) {
+    updateMessageTag(memo.tags[i], record.timestamp);
+  }
+  record.tags = memo.tags;
+
+  for (let i = 0; i < memo.mentions.length; i++) {
+    const mentioned = getOrCreateAccount(memo.mentions[i]);
+
+    const mention = new Mention(record.id + "-" + mentioned.id);
+    mention.record = record.id;
+    mention.author = record.from;
+    mention.mentioned = mentioned.id;
+    mention.timestamp = record.timestamp;
+    mention.blockNumber = record.blockNumber;
+    mention.save();
+  }
+
+  const replyTo = memo.replyTo;
+  if (replyTo !== null) {
+    record.replyToRecordId = Bytes.fromHexString(replyTo);
+    const index = RecordIdIndex.load(replyTo);
+    if (index !== null) {
+      record.replyTo = index.record;
+    }
+  }
+}
+
+/**
+ * 登记转账记录的合约 recordId，供后续 re:<recordId> 回复查找
+ *
+ * 💡 不同合约部署的 recordId 理论上不会重复；若重复，保留最早的记录
+ *
+ * @param record - 已保存的转账记录
+ */
+export function indexRecordId(record: TransferRecord): void {
+  const id = record.recordId.toHexString();
+  if (RecordIdIndex.load(id) !== null) {
+    return;
+  }
+
+  const index = new RecordIdIndex(id);
+  index.record = record.id;
+  index.save();
+}
@@ -0,0 +1,73 @@
+/**
+ * 账户对模块 - 维护地址之间的有向转账关系
+ *
+ * 🎯 核心功能：
+ * - 维护 AccountPair（from → to）实体的次数、金额和首末转账
+ * - 在出现新的交易对手时更新双方 Account.uniqueCounterpartyCount
+ *
+ * 💡 唯一对手计数规则：
+ * - 创建新的 A → B 时，若 B → A 尚不存在，说明 A、B 第一次产生关联，双方各加 1
+ * - 自转账（A → A）不计入交易对手
+ */
+
+import { Address, BigInt } from "@graphprotocol/graph-ts";
+
+import { Account, AccountPair, TransferRecord } from "../generated/schema";
+
+/**
+ * 生成账户对 ID
+ *
+ * @param from - 发送方账户 ID
+ * @param to - 接收方账户 ID
+ * @returns 格式为 "发送方-接收方" 的 ID
+ */
+function accountPairId(from: string, to: string): string {
+  return from + "-" + to;
+}
+
+/**
+ * 将账户的唯一交易对手计数加 1
+ *
+ * @param accountId - 账户 ID（账户在调用前已由 handleTransferRecord 创建）
+ */
+function incrementCounterpartyCount(accountId: string): void {
+  const account = Account.load(accountId);
+  if (account === null) {
+    return;
+  }
+  account.uniqueCounterpartyCount = account.uniqueCounterpartyCount.plus(BigInt.fromI32(1));
+  account.save();
+}
+
+/**
+ * 根据新写入的转账记录更新对应的账户对
+ *
+ * @param record - 已保存的转账记录实体
+ */
+export function updateAccountPair(record: TransferRecord): void {
+  const id = accountPairId(record.from, record.to);
+
+  let pair = AccountPair.load(id);
+  if (pair === null) {
+    pair = new AccountPair(id);
+    pair.from = record.from;
+    pair.to = record.to;
+    pair.transferCount = BigInt.fromI32(0);
+    pair.totalValue = BigInt.fromI32(0);
+    pair.firstTransfer = record.id;
+    pair.firstTransferTimestamp = record.timestamp;
+
+    // 新的有向关系：若反方向也不存在，则双方首次成为交易对手
+    const isSelfTransfer = Address.fromString(record.from).equals(Address.fromString(record.to));
+    if (!isSelfTransfer && AccountPair.load(accountPairId(record.to, record.from)) === null) {
+      incrementCounterpartyCount(record.from);
+      incrementCounterpartyCount(record.to);
+    }
+  }
+
+  pair.transferCount = pair.transferCount.plus(BigInt.fromI32(1));
+  pair.totalValue = pair.totalValue.plus(record.value);
+  pair.lastTransfer = record.id;
+  pair.lastTransferTimestamp = record.timestamp;
+  pair.save();
+}
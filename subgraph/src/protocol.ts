@@ -0,0 +1,163 @@
+/**
+ * 协议统计模块 - 维护全局 Protocol 单例并与合约状态对账
+ *
+ * 🎯 核心功能：
+ * - 累计全部转账记录的数量、金额和唯一账户数
+ * - 累计每个合约部署（TransferContract）的记录数和金额
+ * - 每个合约部署的第一条记录及之后每 RECONCILE_INTERVAL 条记录调用 getContractInfo() 对账
+ * - 将偏差写入 TransferContract 和 ReconciliationCheck，并把各合约的偏差汇总到 Protocol
+ *
+ * 💡 对账时机说明：
+ * - 合约调用返回的是事件所在区块末尾的状态
+ * - 若同一区块内还有后续事件，处理它们时会用已保存的合约值重新计算偏差，
+ *   无需再次调用合约，区块处理完成后偏差即为准确值
+ */
+
+import { BigInt, ethereum, log } from "@graphprotocol/graph-ts";
+
+import { Protocol, ReconciliationCheck, TransferContract } from "../generated/schema";
+import { SimpleTransferContract } from "../generated/templates/SimpleTransferContractTemplate/SimpleTransferContract";
+
+// ==================== 常量 ====================
+
+const PROTOCOL_ID = "protocol";
+
+// 每索引多少条记录与合约对账一次
+const RECONCILE_INTERVAL = 50;
+
+// ==================== 工具函数 ====================
+
+/**
+ * 获取或创建全局 Protocol 单例
+ *
+ * @returns Protocol 实体对象（新建时尚未保存）
+ */
+function getOrCreateProtocol(): Protocol {
+  let protocol = Protocol.load(PROTOCOL_ID);
+
+  if (protocol === null) {
+    protocol = new Protocol(PROTOCOL_ID);
+    protocol.totalRecords = BigInt.fromI32(0);
+    protocol.totalValue = BigInt.fromI32(0);
+    protocol.uniqueAccountCount = BigInt.fromI32(0);
+    protocol.uniqueSenderCount = BigInt.fromI32(0);
+    protocol.uniqueReceiverCount = BigInt.fromI32(0);
+    protocol.driftCheckCount = BigInt.fromI32(0);
+  }
+
+  return protocol;
+}
+
+/**
+ * 更新某个合约部署的对账结果
+ *
+ * 🔄 流程：
+ * 1. 本区块已对账过：沿用已保存的合约值，仅重新计算偏差
+ * 2. 第一条记录或到达对账间隔：调用 getContractInfo() 读取合约 totalRecords
+ * 3. 其余情况：不做处理
+ *
+ * @param protocol - Protocol 实体，汇总各合约的对账结果（由调用方保存）
+ * @param contract - 已累加本条记录的合约部署实体（由调用方保存）
+ * @param event - 当前处理的合约事件
+ */
+function reconcile(protocol: Protocol, contract: TransferContract, event: ethereum.Event): void {
+  const checkId = contract.id + "-" + event.block.number.toString();
+  let check = ReconciliationCheck.load(checkId);
+
+  if (check === null) {
+    // 第一条记录时也对账一次，可及时发现 startBlock 设置过晚导致的漏记
+    const isDue =
+      contract.totalRecords.equals(BigInt.fromI32(1)) ||
+      contract.totalRecords.mod(BigInt.fromI32(RECONCILE_INTERVAL)).isZero();
+    if (!isDue) {
+      return;
+    }
+
+    const result = SimpleTransferContract.bind(event.address).try_getContractInfo();
+    if (result.reverted) {
+      log.warning("getContractInfo() reverted for {} at block {}, skip reconciliation", [
+        contract.id,
+        event.block.number.toString(),
+      ]);
+      return;
+    }
+
+    check = new ReconciliationCheck(checkId);
+    check.contract = contract.id;
+    check.blockNumber = event.block.number;
+    check.timestamp = event.block.timestamp;
+    check.contractTotalRecords = result.value.get_totalRecords();
+  } else if (!check.drift.isZero()) {
+    // 同一区块内重新计算：先撤销上一次计入的偏差计数
+    protocol.driftCheckCount = protocol.driftCheckCount.minus(BigInt.fromI32(1));
+  }
+
+  check.indexedTotalRecords = contract.totalRecords;
+  check.drift = check.contractTotalRecords.minus(contract.totalRecords);
+  check.save();
+
+  if (!check.drift.isZero()) {
+    protocol.driftCheckCount = protocol.driftCheckCount.plus(BigInt.fromI32(1));
+  }
+
+  // Protocol 上保存的是各合约最新结果之和：先减去该合约上一次的值，再加上本次的值
+  const previousContractTotal = contract.contractTotalRecords;
+  const previousDrift = contract.recordDrift;
+  let protocolContractTotal = protocol.contractTotalRecords;
+  let protocolDrift = protocol.recordDrift;
+  if (protocolContractTotal === null || protocolDrift === null) {
+    protocolContractTotal = BigInt.fromI32(0);
+    protocolDrift = BigInt.fromI32(0);
+  }
+  if (previousContractTotal !== null && previousDrift !== null) {
+    protocolContractTotal = protocolContractTotal.minus(previousContractTotal);
+    protocolDrift = protocolDrift.minus(previousDrift);
+  }
+  protocol.contractTotalRecords = protocolContractTotal.plus(check.contractTotalRecords);
+  protocol.recordDrift = protocolDrift.plus(check.drift);
+  protocol.lastCheck = check.id;
+
+  contract.contractTotalRecords = check.contractTotalRecords;
+  contract.recordDrift = check.drift;
+  contract.lastCheck = check.id;
+}
+
+// ==================== 统计更新函数 ====================
+
+/**
+ * 将一条转账记录计入全局统计和所属合约部署的统计
+ *
+ * @param event - 当前处理的合约事件
+ * @param contract - 产生该记录的合约部署
+ * @param value - 转账金额（Wei）
+ * @param newAccountCount - 本条记录新增的参与账户数（0~2）
+ * @param isNewSender - 发送方是否第一次发送
+ * @param isNewReceiver - 接收方是否第一次接收
+ */
+export function updateProtocol(
+  event: ethereum.Event,
+  contract: TransferContract,
+  value: BigInt,
+  newAccountCount: i32,
+  isNewSender: boolean,
+  isNewReceiver: boolean
+): void {
+  const protocol = getOrCreateProtocol();
+
+  protocol.totalRecords = protocol.totalRecords.plus(BigInt.fromI32(1));
+  protocol.totalValue = protocol.totalValue.plus(value);
+  protocol.uniqueAccountCount = protocol.uniqueAccountCount.plus(BigInt.fromI32(newAccountCount));
+  if (isNewSender) {
+    protocol.uniqueSenderCount = protocol.uniqueSenderCount.plus(BigInt.fromI32(1));
+  }
+  if (isNewReceiver) {
+    protocol.uniqueReceiverCount = protocol.uniqueReceiverCount.plus(BigInt.fromI32(1));
+  }
+
+  contract.totalRecords = contract.totalRecords.plus(BigInt.fromI32(1));
+  contract.totalValue = contract.totalValue.plus(value);
+
+  reconcile(protocol, contract, event);
+  contract.save();
+  protocol.save();
+}
@@ -0,0 +1,98 @@
+/**
+ * 合约部署登记模块 - 支持同一个 Subgraph 索引多份 SimpleTransferContract
+ *
+ * 🎯 核心功能：
+ * - 监听 SimpleTransferRegistry 的 ContractRegistered 事件
+ * - 为登记的合约创建 TransferContract 实体，并通过数据源模板开始索引
+ * - 为 subgraph.yaml 中静态配置的合约按需创建 TransferContract 实体
+ *
+ * 💡 数据源说明：
+ * - 静态数据源与模板共用 src/mapping.ts 中的 handleTransferRecord
+ * - 模板从登记所在区块开始索引，登记前产生的事件会在对账时体现为 recordDrift
+ * - 事件类型从 SimpleTransferContractTemplate 的生成目录导入：静态登记数据源只出现在
+ *   networks.json 配置了登记合约的网络中，模板的 abis 列表保证每个网络的 codegen 都会生成该类型
+ * - 没有登记合约的网络在 networks.json 中把 SimpleTransferContract 配置为部署列表
+ */
+
+import { BigInt, dataSource, ethereum, log } from "@graphprotocol/graph-ts";
+
+import { TransferContract } from "../generated/schema";
+import { SimpleTransferContractTemplate } from "../generated/templates";
+import { ContractRegistered as ContractRegisteredEvent } from "../generated/templates/SimpleTransferContractTemplate/SimpleTransferRegistry";
+
+// ==================== 工具函数 ====================
+
+/**
+ * 创建合约部署实体（未保存）
+ *
+ * @param id - 合约地址的十六进制字符串
+ * @param block - 开始索引的区块
+ * @returns 计数器已初始化的 TransferContract 实体
+ */
+function createTransferContract(id: string, block: ethereum.Block): TransferContract {
+  const contract = new TransferContract(id);
+  contract.createdAtBlock = block.number;
+  contract.createdAtTimestamp = block.timestamp;
+  contract.totalRecords = BigInt.fromI32(0);
+  contract.totalValue = BigInt.fromI32(0);
+  return contract;
+}
+
+/**
+ * 获取或创建触发事件的合约部署实体
+ *
+ * 📝 说明：
+ * - 登记的合约在 handleContractRegistered 中已创建
+ * - 静态配置的合约在第一条记录时创建，name / registrant 为 null
+ *
+ * @param event - SimpleTransferContract 触发的事件
+ * @returns TransferContract 实体（新建时已保存）
+ */
+export function getOrCreateTransferContract(event: ethereum.Event): TransferContract {
+  const id = event.address.toHexString();
+  let contract = TransferContract.load(id);
+
+  if (contract === null) {
+    contract = createTransferContract(id, event.block);
+    contract.address = event.address;
+    contract.save();
+  }
+
+  return contract;
+}
+
+// ==================== 事件处理函数 ====================
+
+/**
+ * 处理 SimpleTransferRegistry 的 ContractRegistered 事件
+ *
+ * 📊 数据处理流程：
+ * 1. 跳过已有 TransferContract 的合约（如已产生记录的静态配置合约），避免同一事件被重复处理
+ * 2. 创建 TransferContract 实体
+ * 3. 通过 SimpleTransferContractTemplate 为该合约创建数据源，沿用登记数据源的 context（预警阈值等配置）
+ *
+ * @param event - 登记合约触发的 ContractRegistered 事件
+ */
+export function handleContractRegistered(event: ContractRegisteredEvent): void {
+  const address = event.params.contractAddress;
+  const id = address.toHexString();
+
+  if (TransferContract.load(id) !== null) {
+    log.warning("Contract {} is already indexed, skip registration", [id]);
+    return;
+  }
+
+  const contract = createTransferContract(id, event.block);
+  contract.address = address;
+  contract.name = event.params.name;
+  contract.registrant = event.params.registrant;
+  contract.save();
+
+  SimpleTransferContractTemplate.createWithContext(address, dataSource.context());
+
+  log.info("Registered SimpleTransferContract {} ({}) at block {}", [
+    id,
+    event.params.name,
+    event.block.number.toString(),
+  ]);
+}
@@ -0,0 +1,170 @@
+/**
+ * 转账统计模块 - 按时间桶聚合转账活动
+ *
+ * 🎯 核心功能：
+ * - 维护 DailyTransferStat（按天）和 HourlyTransferStat（按小时）实体
+ * - 累计每个时间桶的记录数、总金额和最大单笔金额
+ * - 借助 TransferStatParticipant 标记统计唯一发送方/接收方
+ * - 写入 TransferDataPoint 时间序列，由 graph-node 聚合为 TransferVolume 等实体
+ *
+ * 💡 设计说明：
+ * - 时间桶 ID 为 timestamp 整除桶长度，与常见 Subgraph 的 dayData 约定一致
+ * - 金额和次数的按小时/天汇总优先使用原生聚合；唯一发送方/接收方等去重统计
+ *   无法用聚合函数表达，仍由 DailyTransferStat / HourlyTransferStat 维护
+ * - 由 handleTransferRecord 在每条非自转账的转账记录写入后调用（自转账不计入资金流动统计）
+ */
+
+import { BigInt, Bytes } from "@graphprotocol/graph-ts";
+
+import {
+  DailyTransferStat,
+  HourlyTransferStat,
+  TransferDataPoint,
+  TransferStatParticipant,
+} from "../generated/schema";
+
+// ==================== 常量 ====================
+
+const SECONDS_PER_DAY = 86400;
+const SECONDS_PER_HOUR = 3600;
+
+const ROLE_SENDER = "sender";
+const ROLE_RECEIVER = "receiver";
+
+// ==================== 工具函数 ====================
+
+/**
+ * 标记地址在某个统计桶中出现过
+ *
+ * @param bucket - 统计桶标识，格式：day-天序号 或 hour-小时序号
+ * @param role - 参与角色（sender / receiver）
+ * @param address - 参与者地址
+ * @returns 该地址是否第一次以此角色出现在该统计桶中
+ */
+function markParticipant(bucket: string, role: string, address: Bytes): boolean {
+  const id = bucket + "-" + role + "-" + address.toHexString();
+  if (TransferStatParticipant.load(id) !== null) {
+    return false;
+  }
+
+  const participant = new TransferStatParticipant(id);
+  participant.bucket = bucket;
+  participant.role = role;
+  participant.address = address;
+  participant.save();
+
+  return true;
+}
+
+// ==================== 统计更新函数 ====================
+
+/**
+ * 写入一条转账时间序列数据点
+ *
+ * 📝 说明：
+ * - id 和 timestamp 由 graph-node 自动设置，构造时传入的 id 会被忽略
+ * - 聚合实体（TransferVolume / AccountSentVolume / AccountReceivedVolume）不需要在映射中维护
+ *
+ * @param from - 发送方账户 ID
+ * @param to - 接收方账户 ID
+ * @param value - 转账金额（Wei）
+ */
+export function recordTransferDataPoint(from: string, to: string, value: BigInt): void {
+  const dataPoint = new TransferDataPoint(0);
+  dataPoint.from = from;
+  dataPoint.to = to;
+  dataPoint.value = value;
+  dataPoint.save();
+}
+
+/**
+ * 更新转账所在自然日（UTC）的统计数据
+ *
+ * @param from - 发送方地址
+ * @param to - 接收方地址
+ * @param value - 转账金额（Wei）
+ * @param timestamp - 转账时间戳
+ */
+export function updateDailyTransferStat(
+  from: Bytes,
+  to: Bytes,
+  value: BigInt,
+  timestamp: BigInt
+): void {
+  const dayId = timestamp.toI32() / SECONDS_PER_DAY;
+  const id = dayId.toString();
+
+  let stat = DailyTransferStat.load(id);
+  if (stat === null) {
+    stat = new DailyTransferStat(id);
+    stat.dayId = dayId;
+    stat.dayStartTimestamp = BigInt.fromI32(dayId * SECONDS_PER_DAY);
+    stat.recordCount = BigInt.fromI32(0);
+    stat.totalValue = BigInt.fromI32(0);
+    stat.maxValue = BigInt.fromI32(0);
+    stat.uniqueSenderCount = BigInt.fromI32(0);
+    stat.uniqueReceiverCount = BigInt.fromI32(0);
+  }
+
+  stat.recordCount = stat.recordCount.plus(BigInt.fromI32(1));
+  stat.totalValue = stat.totalValue.plus(value);
+  if (value.gt(stat.maxValue)) {
+    stat.maxValue = value;
+  }
+
+  const bucket = "day-" + id;
+  if (markParticipant(bucket, ROLE_SENDER, from)) {
+    stat.uniqueSenderCount = stat.uniqueSenderCount.plus(BigInt.fromI32(1));
+  }
+  if (markParticipant(bucket, ROLE_RECEIVER, to)) {
+    stat.uniqueReceiverCount = stat.uniqueReceiverCount.plus(BigInt.fromI32(1));
+  }
+
+  stat.save();
+}
+
+/**
+ * 更新转账所在小时的统计数据
+ *
+ * @param from - 发送方地址
+ * @param to - 接收方地址
+ * @param value - 转账金额（Wei）
+ * @param timestamp - 转账时间戳
+ */
+export function updateHourlyTransferStat(
+  from: Bytes,
+  to: Bytes,
+  value: BigInt,
+  timestamp: BigInt
+): void {
+  const hourId = timestamp.toI32() / SECONDS_PER_HOUR;
+  const id = hourId.toString();
+
+  let stat = HourlyTransferStat.load(id);
+  if (stat === null) {
+    stat = new HourlyTransferStat(id);
+    stat.hourId = hourId;
+    stat.hourStartTimestamp = BigInt.fromI32(hourId * SECONDS_PER_HOUR);
+    stat.recordCount = BigInt.fromI32(0);
+    stat.totalValue = BigInt.fromI32(0);
+    stat.maxValue = BigInt.fromI32(0);
+    stat.uniqueSenderCount = BigInt.fromI32(0);
+    stat.uniqueReceiverCount = BigInt.fromI32(0);
+  }
+
+  stat.recordCount = stat.recordCount.plus(BigInt.fromI32(1));
+  stat.totalValue = stat.totalValue.plus(value);
+  if (value.gt(stat.maxValue)) {
+    stat.maxValue = value;
+  }
+
+  const bucket = "hour-" + id;
+  if (markParticipant(bucket, ROLE_SENDER, from)) {
+    stat.uniqueSenderCount = stat.uniqueSenderCount.plus(BigInt.fromI32(1));
+  }
+  if (markParticipant(bucket, ROLE_RECEIVER, to)) {
+    stat.uniqueReceiverCount = stat.uniqueReceiverCount.plus(BigInt.fromI32(1));
+  }
+
+  stat.save();
+}
@@ -0,0 +1,56 @@
+/**
+ * 交易模块 - 维护产生转账记录的 Transaction 实体
+ *
+ * 🎯 核心功能：
+ * - 记录交易的 Gas 价格、Gas 上限、交易索引、nonce 和输入数据大小
+ * - 从交易收据中读取实际消耗的 Gas 和执行状态，计算手续费
+ *
+ * 💡 收据说明：
+ * - 需要在 subgraph.yaml 的事件处理器上配置 receipt: true
+ * - 收据不可用时（event.receipt 为 null），gasUsed / fee / status 留空
+ * - 同一交易中的多条事件只在第一次处理时创建实体（Transaction 为不可变实体）
+ */
+
+import { ethereum } from "@graphprotocol/graph-ts";
+
+import { Transaction } from "../generated/schema";
+
+/**
+ * 获取或创建事件所在的交易实体
+ *
+ * @param event - 合约触发的事件（需启用收据）
+ * @returns Transaction 实体
+ */
+export function recordTransaction(event: ethereum.Event): Transaction {
+  const id = event.transaction.hash.toHexString();
+
+  let transaction = Transaction.load(id);
+  if (transaction !== null) {
+    return transaction;
+  }
+
+  transaction = new Transaction(id);
+  transaction.hash = event.transaction.hash;
+  transaction.from = event.transaction.from;
+  transaction.to = event.transaction.to;
+  transaction.value = event.transaction.value;
+  transaction.gasPrice = event.transaction.gasPrice;
+  transaction.gasLimit = event.transaction.gasLimit;
+  transaction.transactionIndex = event.transaction.index;
+  transaction.nonce = event.transaction.nonce;
+  transaction.inputSize = event.transaction.input.length;
+  transaction.blockNumber = event.block.number;
+  transaction.timestamp = event.block.timestamp;
+  transaction.block = event.block.hash.toHexString();
+
+  const receipt = event.receipt;
+  if (receipt !== null) {
+    transaction.gasUsed = receipt.gasUsed;
+    transaction.fee = receipt.gasUsed.times(event.transaction.gasPrice);
+    transaction.status = receipt.status;
+  }
+
+  transaction.save();
+
+  return transaction;
+}
@@ -0,0 +1,97 @@
+/**
+ * 记录ID校验模块 - 按合约规则重新计算 recordId
+ *
+ * 🎯 核心功能：
+ * - 合约中 recordId = keccak256(abi.encodePacked(from, to, value, timestamp, totalRecords))
+ * - 其中 totalRecords 为写入本条记录之前的合约记录总数，即本条记录的序号
+ * - 映射中用推算出的序号重新计算哈希，与事件中的 recordId 对比
+ *
+ * 💡 序号推算：
+ * - 首选：该合约部署（TransferContract）已索引的记录数（从合约部署区块开始索引时与合约一致）
+ * - 备选：已索引记录数 + 最近一次对账得到的 recordDrift
+ *   （startBlock 晚于部署区块时，对账后即可得到正确的偏移量）
+ * - 两者都不匹配时记录为未通过校验，序号留空
+ */
+
+import { Address, BigInt, Bytes, crypto, ethereum } from "@graphprotocol/graph-ts";
+
+import { TransferContract } from "../generated/schema";
+
+// ==================== 工具函数 ====================
+
+/**
+ * 按 abi.encodePacked 规则编码 uint256（32 字节大端序）
+ *
+ * @param value - 无符号整数
+ * @returns 32 字节的编码结果
+ */
+function encodeUint256(value: BigInt): Bytes {
+  // 静态类型的编码不会失败，结果一定非空
+  return ethereum.encode(ethereum.Value.fromUnsignedBigInt(value)) as Bytes;
+}
+
+/**
+ * 按合约规则计算记录ID
+ *
+ * @param from - 发送方地址（20 字节）
+ * @param to - 接收方地址（20 字节）
+ * @param value - 转账金额
+ * @param timestamp - 区块时间戳
+ * @param sequence - 写入前的合约记录总数
+ * @returns keccak256 哈希
+ */
+export function computeRecordId(
+  from: Address,
+  to: Address,
+  value: BigInt,
+  timestamp: BigInt,
+  sequence: BigInt
+): Bytes {
+  const packed = from
+    .concat(to)
+    .concat(encodeUint256(value))
+    .concat(encodeUint256(timestamp))
+    .concat(encodeUint256(sequence));
+  return Bytes.fromByteArray(crypto.keccak256(packed));
+}
+
+// ==================== 校验函数 ====================
+
+/**
+ * 校验事件中的 recordId 并推算记录序号
+ *
+ * ⚠️ 必须在 updateProtocol() 之前调用，此时 TransferContract 尚未计入本条记录
+ *
+ * @param contract - 产生该记录的合约部署
+ * @param from - 发送方地址
+ * @param to - 接收方地址
+ * @param value - 转账金额
+ * @param timestamp - 事件中的时间戳
+ * @param recordId - 事件中的记录ID
+ * @returns 校验通过时返回记录序号，否则返回 null
+ */
+export function verifyRecordId(
+  contract: TransferContract,
+  from: Address,
+  to: Address,
+  value: BigInt,
+  timestamp: BigInt,
+  recordId: Bytes
+): BigInt | null {
+  const indexed = contract.totalRecords;
+
+  if (computeRecordId(from, to, value, timestamp, indexed).equals(recordId)) {
+    return indexed;
+  }
+
+  // 对账发现偏差时，用偏差修正后的序号再试一次
+  const drift = contract.recordDrift;
+  if (drift !== null && !drift.isZero()) {
+    const adjusted = indexed.plus(drift);
+    if (computeRecordId(from, to, value, timestamp, adjusted).equals(recordId)) {
+      return adjusted;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,81 @@
+/**
+ * 转账分类单元测试 - classifyTransfer
+ *
+ * 🎯 覆盖场景：
+ * - 自转账：发送方与接收方相同，即使该地址部署了代码
+ * - 未索引的合约：接收方部署了代码但没有对应实体
+ * - 已索引的合约：接收方有对应实体
+ * - 普通地址：代码查询结果为没有代码，或尚无查询结果
+ *
+ * 💡 代码查询结果由 handleRecipientCode 缓存到 AddressCode，测试直接写入该实体
+ */
+
+import { Address, BigInt } from "@graphprotocol/graph-ts";
+import { afterEach, assert, clearStore, describe, test } from "matchstick-as/assembly/index";
+
+import { AddressCode, TransferContract } from "../generated/schema";
+import {
+  classifyTransfer,
+  KIND_CONTRACT_RECIPIENT,
+  KIND_NORMAL,
+  KIND_SELF,
+} from "../src/classification";
+
+// ==================== 测试数据 ====================
+
+const ALICE = Address.fromString("0x0000000000000000000000000000000000000001");
+const BOB = Address.fromString("0x0000000000000000000000000000000000000002");
+const VAULT = Address.fromString("0x00000000000000000000000000000000000000c1");
+
+/**
+ * 写入地址的代码查询结果
+ *
+ * @param address - 地址
+ * @param hasCode - 是否部署了代码
+ */
+function cacheCode(address: Address, hasCode: boolean): void {
+  const code = new AddressCode(address.toHexString());
+  code.hasCode = hasCode;
+  code.checkedAtBlock = BigInt.fromI32(1);
+  code.save();
+}
+
+// ==================== classifyTransfer ====================
+
+describe("classifyTransfer", () => {
+  afterEach(() => {
+    clearStore();
+  });
+
+  test("classifies a self-transfer even when the address has code", () => {
+    cacheCode(VAULT, true);
+    assert.stringEquals(classifyTransfer(VAULT, VAULT), KIND_SELF);
+  });
+
+  test("classifies a recipient with code but no entity as a contract", () => {
+    cacheCode(VAULT, true);
+    assert.assertNull(TransferContract.load(VAULT.toHexString()));
+    assert.stringEquals(classifyTransfer(ALICE, VAULT), KIND_CONTRACT_RECIPIENT);
+  });
+
+  test("classifies an indexed contract by its entity", () => {
+    const contract = new TransferContract(BOB.toHexString());
+    contract.address = BOB;
+    contract.createdAtBlock = BigInt.fromI32(1);
+    contract.createdAtTimestamp = BigInt.fromI32(1700000000);
+    contract.totalRecords = BigInt.fromI32(0);
+    contract.totalValue = BigInt.fromI32(0);
+    contract.save();
+
+    assert.stringEquals(classifyTransfer(ALICE, BOB), KIND_CONTRACT_RECIPIENT);
+  });
+
+  test("classifies an address without code as normal", () => {
+    cacheCode(BOB, false);
+    assert.stringEquals(classifyTransfer(ALICE, BOB), KIND_NORMAL);
+  });
+
+  test("classifies an address without a code lookup as normal", () => {
+    assert.stringEquals(classifyTransfer(ALICE, BOB), KIND_NORMAL);
+  });
+});
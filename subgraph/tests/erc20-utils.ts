@@ -0,0 +1,54 @@
+/**
+ * 测试工具 - ERC-20 事件构造函数
+ *
+ * 🎯 核心功能：
+ * - 构造 Transfer 模拟事件，供 Matchstick 单元测试调用 handleTokenTransfer
+ * - 通过日志索引区分同一交易中的多次转账
+ * - 模拟 balanceOf() 调用，供开启 balanceOfCalls 的数据源使用
+ */
+
+import { Address, BigInt, ethereum } from "@graphprotocol/graph-ts";
+import { createMockedFunction, newMockEvent } from "matchstick-as/assembly/index";
+
+import { Transfer as TransferEvent } from "../generated/templates/SimpleTransferContractTemplate/ERC20";
+
+// newMockEvent() 默认使用的合约地址，即测试中的代币地址
+export const TOKEN_ADDRESS = Address.fromString("0xA16081F360e3847006dB660bae1c6d1b2e17eC2A");
+
+/**
+ * 构造 ERC-20 Transfer 事件
+ *
+ * @param from - 发送方地址（铸造时为零地址）
+ * @param to - 接收方地址（销毁时为零地址）
+ * @param value - 转账数量（代币最小单位）
+ * @param logIndex - 日志索引
+ * @returns 模拟事件对象
+ */
+export function createTokenTransferEvent(
+  from: Address,
+  to: Address,
+  value: BigInt,
+  logIndex: i32
+): TransferEvent {
+  const event = changetype<TransferEvent>(newMockEvent());
+
+  event.parameters = [];
+  event.parameters.push(new ethereum.EventParam("from", ethereum.Value.fromAddress(from)));
+  event.parameters.push(new ethereum.EventParam("to", ethereum.Value.fromAddress(to)));
+  event.parameters.push(new ethereum.EventParam("value", ethereum.Value.fromUnsignedBigInt(value)));
+  event.logIndex = BigInt.fromI32(logIndex);
+
+  return event;
+}
+
+/**
+ * 模拟代币合约的 balanceOf() 调用
+ *
+ * @param holder - 持有者地址
+ * @param balance - 合约返回的余额
+ */
+export function mockBalanceOf(holder: Address, balance: BigInt): void {
+  createMockedFunction(TOKEN_ADDRESS, "balanceOf", "balanceOf(address):(uint256)")
+    .withArgs([ethereum.Value.fromAddress(holder)])
+    .returns([ethereum.Value.fromUnsignedBigInt(balance)]);
+}
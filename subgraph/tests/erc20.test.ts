@@ -0,0 +1,121 @@
+/**
+ * ERC-20 代币映射单元测试 - handleTokenTransfer
+ *
+ * 🎯 覆盖场景：
+ * - 普通转账：创建 Token、TokenTransfer 和双方 TokenHolder，不创建 Account
+ * - 铸造/销毁：零地址不创建 TokenHolder 和 TokenBalance，对应一方为空
+ * - 余额：默认按事件金额增减，开启 balanceOfCalls 后以 balanceOf() 的返回值为准
+ *
+ * 💡 运行方式：pnpm test（即 graph test）
+ */
+
+import { Address, BigInt, DataSourceContext, Value } from "@graphprotocol/graph-ts";
+import {
+  afterEach,
+  assert,
+  clearStore,
+  dataSourceMock,
+  describe,
+  test,
+} from "matchstick-as/assembly/index";
+
+import { handleTokenTransfer } from "../src/erc20";
+
+import { createTokenTransferEvent, mockBalanceOf, TOKEN_ADDRESS } from "./erc20-utils";
+
+// ==================== 测试数据 ====================
+
+const ALICE = "0x0000000000000000000000000000000000000001";
+const BOB = "0x0000000000000000000000000000000000000002";
+
+const TOKEN = TOKEN_ADDRESS.toHexString();
+
+/**
+ * 生成 TokenBalance 的 ID
+ *
+ * @param holder - 持有者地址
+ * @returns "代币地址-持有者地址"
+ */
+function balanceId(holder: string): string {
+  return TOKEN + "-" + holder;
+}
+
+describe("handleTokenTransfer", () => {
+  afterEach(() => {
+    clearStore();
+    dataSourceMock.resetValues();
+  });
+
+  test("records a transfer between two holders without creating accounts", () => {
+    const event = createTokenTransferEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      BigInt.fromI32(500),
+      0
+    );
+    handleTokenTransfer(event);
+
+    const transferId = event.transaction.hash.toHexString() + "-0";
+    assert.fieldEquals("Token", TOKEN, "transferCount", "1");
+    assert.fieldEquals("Token", TOKEN, "totalVolume", "500");
+    assert.fieldEquals("TokenTransfer", transferId, "from", ALICE);
+    assert.fieldEquals("TokenTransfer", transferId, "to", BOB);
+    assert.entityCount("TokenHolder", 2);
+    assert.entityCount("Account", 0);
+  });
+
+  test("skips the zero address on mint and burn", () => {
+    handleTokenTransfer(
+      createTokenTransferEvent(Address.zero(), Address.fromString(ALICE), BigInt.fromI32(1000), 0)
+    );
+    handleTokenTransfer(
+      createTokenTransferEvent(Address.fromString(ALICE), Address.zero(), BigInt.fromI32(400), 1)
+    );
+
+    assert.entityCount("TokenTransfer", 2);
+    assert.entityCount("TokenHolder", 1);
+    assert.entityCount("TokenBalance", 1);
+    assert.notInStore("TokenHolder", Address.zero().toHexString());
+    assert.fieldEquals("TokenBalance", balanceId(ALICE), "balance", "600");
+  });
+
+  test("derives balances from event amounts by default", () => {
+    handleTokenTransfer(
+      createTokenTransferEvent(Address.zero(), Address.fromString(ALICE), BigInt.fromI32(1000), 0)
+    );
+    handleTokenTransfer(
+      createTokenTransferEvent(
+        Address.fromString(ALICE),
+        Address.fromString(BOB),
+        BigInt.fromI32(300),
+        1
+      )
+    );
+
+    assert.fieldEquals("TokenBalance", balanceId(ALICE), "balance", "700");
+    assert.fieldEquals("TokenBalance", balanceId(BOB), "balance", "300");
+    assert.fieldEquals("TokenBalance", balanceId(BOB), "holder", BOB);
+  });
+
+  test("reads balances from balanceOf() when balanceOfCalls is enabled", () => {
+    const context = new DataSourceContext();
+    context.set("balanceOfCalls", Value.fromBoolean(true));
+    dataSourceMock.setContext(context);
+
+    // ALICE 在 startBlock 之前已持有代币，事件增减无法得到该余额
+    mockBalanceOf(Address.fromString(ALICE), BigInt.fromI32(9700));
+    mockBalanceOf(Address.fromString(BOB), BigInt.fromI32(300));
+
+    handleTokenTransfer(
+      createTokenTransferEvent(
+        Address.fromString(ALICE),
+        Address.fromString(BOB),
+        BigInt.fromI32(300),
+        0
+      )
+    );
+
+    assert.fieldEquals("TokenBalance", balanceId(ALICE), "balance", "9700");
+    assert.fieldEquals("TokenBalance", balanceId(BOB), "balance", "300");
+  });
+});
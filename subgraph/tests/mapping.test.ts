@@ -0,0 +1,643 @@
+/**
+ * 映射函数单元测试 - handleTransferRecord / getOrCreateAccount
+ *
+ * 🎯 覆盖场景：
+ * - 新账户：首次转账创建账户、转账记录和全局统计
+ * - 重复发送：同一发送方多次转账时的累计统计
+ * - 自转账：发送方与接收方为同一账户，只计入记录数，不计入任何资金流动统计
+ * - 转账类型：转给已索引合约或部署了代码的地址的记录标记为 CONTRACT_RECIPIENT
+ * - 多日志交易：同一交易中的多条 TransferRecord 事件
+ * - 每日快照：跨天转账时 AccountDaySnapshot 的累计值与当天统计
+ * - 大额预警：按阈值分级生成 LargeTransferAlert，阈值可由数据源 context 覆盖
+ * - 重复提交：检测窗口内同一合约中内容相同的记录关联到前一条记录，窗口可由数据源 context 覆盖
+ * - 排行榜：全部历史与滚动窗口条目的累计范围
+ * - recordId 校验：与合约规则不一致的记录
+ * - 合约部署：记录和账户关联到触发事件的 TransferContract
+ *
+ * 💡 运行方式：pnpm test（即 graph test）
+ */
+
+import { Address, BigInt, Bytes, DataSourceContext, Value } from "@graphprotocol/graph-ts";
+import {
+  afterEach,
+  assert,
+  beforeEach,
+  clearStore,
+  dataSourceMock,
+  describe,
+  test,
+} from "matchstick-as/assembly/index";
+
+import { AddressCode, TransferRecord } from "../generated/schema";
+import { getOrCreateAccount } from "../src/accounts";
+import { handleTransferRecord } from "../src/mapping";
+
+import {
+  CONTRACT_ADDRESS,
+  createTransferRecordEvent,
+  createValidTransferRecordEvent,
+  mockGetContractInfo,
+} from "./simple-transfer-contract-utils";
+
+// ==================== 测试数据 ====================
+
+const ALICE = "0x0000000000000000000000000000000000000001";
+const BOB = "0x0000000000000000000000000000000000000002";
+const CAROL = "0x0000000000000000000000000000000000000003";
+
+const TX_1 = "0x1111111111111111111111111111111111111111111111111111111111111111";
+const TX_2 = "0x2222222222222222222222222222222222222222222222222222222222222222";
+const TX_3 = "0x3333333333333333333333333333333333333333333333333333333333333333";
+
+const TIMESTAMP = BigInt.fromI32(1700000000);
+
+/**
+ * 生成测试金额（1e18 Wei 的整数倍）
+ *
+ * @param ether - 以 ETH 为单位的整数金额
+ * @returns 以 Wei 为单位的金额
+ */
+function eth(ether: i32): BigInt {
+  return BigInt.fromI32(ether).times(BigInt.fromString("1000000000000000000"));
+}
+
+// ==================== getOrCreateAccount ====================
+
+describe("getOrCreateAccount", () => {
+  afterEach(() => {
+    clearStore();
+  });
+
+  test("creates and saves a zeroed account for a new address", () => {
+    const account = getOrCreateAccount(ALICE);
+
+    assert.stringEquals(ALICE, account.id);
+    assert.entityCount("Account", 1);
+    assert.fieldEquals("Account", ALICE, "address", ALICE);
+    assert.fieldEquals("Account", ALICE, "recordCount", "0");
+    assert.fieldEquals("Account", ALICE, "sentCount", "0");
+    assert.fieldEquals("Account", ALICE, "receivedCount", "0");
+    assert.fieldEquals("Account", ALICE, "selfTransferCount", "0");
+    assert.fieldEquals("Account", ALICE, "netFlow", "0");
+    assert.fieldEquals("Account", ALICE, "firstActivityBlock", "0");
+    assert.fieldEquals("Account", ALICE, "uniqueCounterpartyCount", "0");
+    assert.fieldEquals("Account", ALICE, "possibleDuplicateCount", "0");
+  });
+
+  test("returns the stored account instead of resetting it", () => {
+    const account = getOrCreateAccount(ALICE);
+    account.recordCount = BigInt.fromI32(3);
+    account.save();
+
+    const loaded = getOrCreateAccount(ALICE);
+
+    assert.bigIntEquals(BigInt.fromI32(3), loaded.recordCount);
+    assert.entityCount("Account", 1);
+  });
+});
+
+// ==================== handleTransferRecord ====================
+
+describe("handleTransferRecord", () => {
+  beforeEach(() => {
+    mockGetContractInfo(1);
+  });
+
+  afterEach(() => {
+    clearStore();
+    dataSourceMock.resetValues();
+  });
+
+  test("creates accounts, the record and protocol stats for new accounts", () => {
+    const event = createValidTransferRecordEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      eth(1),
+      TIMESTAMP,
+      "hello",
+      0,
+      TX_1,
+      0
+    );
+    handleTransferRecord(event);
+
+    const recordId = TX_1 + "-0";
+    assert.entityCount("TransferRecord", 1);
+    assert.fieldEquals("TransferRecord", recordId, "from", ALICE);
+    assert.fieldEquals("TransferRecord", recordId, "to", BOB);
+    assert.fieldEquals("TransferRecord", recordId, "value", eth(1).toString());
+    assert.fieldEquals("TransferRecord", recordId, "message", "hello");
+    assert.fieldEquals("TransferRecord", recordId, "recordIdVerified", "true");
+    assert.fieldEquals("TransferRecord", recordId, "sequenceNumber", "0");
+
+    assert.entityCount("Account", 2);
+    assert.fieldEquals("Account", ALICE, "recordCount", "1");
+    assert.fieldEquals("Account", ALICE, "sentCount", "1");
+    assert.fieldEquals("Account", ALICE, "receivedCount", "0");
+    assert.fieldEquals("Account", ALICE, "netFlow", eth(1).neg().toString());
+    assert.fieldEquals("Account", ALICE, "uniqueCounterpartyCount", "1");
+    assert.fieldEquals("Account", BOB, "recordCount", "0");
+    assert.fieldEquals("Account", BOB, "receivedCount", "1");
+    assert.fieldEquals("Account", BOB, "totalReceived", eth(1).toString());
+    assert.fieldEquals("Account", BOB, "firstActivityTimestamp", TIMESTAMP.toString());
+
+    assert.fieldEquals("AccountPair", ALICE + "-" + BOB, "transferCount", "1");
+
+    assert.fieldEquals("Protocol", "protocol", "totalRecords", "1");
+    assert.fieldEquals("Protocol", "protocol", "uniqueAccountCount", "2");
+    assert.fieldEquals("Protocol", "protocol", "uniqueSenderCount", "1");
+    assert.fieldEquals("Protocol", "protocol", "uniqueReceiverCount", "1");
+    assert.fieldEquals("Protocol", "protocol", "recordDrift", "0");
+
+    const contractId = CONTRACT_ADDRESS.toHexString();
+    assert.fieldEquals("TransferRecord", recordId, "contract", contractId);
+    assert.fieldEquals("Account", ALICE, "contract", contractId);
+    assert.fieldEquals("TransferContract", contractId, "totalRecords", "1");
+    assert.fieldEquals("TransferContract", contractId, "recordDrift", "0");
+  });
+
+  test("accumulates statistics for a repeat sender", () => {
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        Address.fromString(BOB),
+        eth(1),
+        TIMESTAMP,
+        "first",
+        0,
+        TX_1,
+        0
+      )
+    );
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        Address.fromString(CAROL),
+        eth(2),
+        TIMESTAMP.plus(BigInt.fromI32(60)),
+        "second",
+        1,
+        TX_2,
+        0
+      )
+    );
+
+    assert.entityCount("TransferRecord", 2);
+    assert.fieldEquals("TransferRecord", TX_2 + "-0", "sequenceNumber", "1");
+
+    assert.fieldEquals("Account", ALICE, "recordCount", "2");
+    assert.fieldEquals("Account", ALICE, "sentCount", "2");
+    assert.fieldEquals("Account", ALICE, "totalSent", eth(3).toString());
+    assert.fieldEquals("Account", ALICE, "netFlow", eth(3).neg().toString());
+    assert.fieldEquals("Account", ALICE, "firstActivityTimestamp", TIMESTAMP.toString());
+    assert.fieldEquals(
+      "Account",
+      ALICE,
+      "lastActivityTimestamp",
+      TIMESTAMP.plus(BigInt.fromI32(60)).toString()
+    );
+    assert.fieldEquals("Account", ALICE, "uniqueCounterpartyCount", "2");
+
+    assert.fieldEquals("Protocol", "protocol", "totalRecords", "2");
+    assert.fieldEquals("Protocol", "protocol", "uniqueAccountCount", "3");
+    assert.fieldEquals("Protocol", "protocol", "uniqueSenderCount", "1");
+    assert.fieldEquals("Protocol", "protocol", "uniqueReceiverCount", "2");
+  });
+
+  test("keeps a self-transfer out of sent and received statistics", () => {
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        Address.fromString(ALICE),
+        eth(5),
+        TIMESTAMP,
+        "to myself",
+        0,
+        TX_1,
+        0
+      )
+    );
+
+    assert.fieldEquals("TransferRecord", TX_1 + "-0", "kind", "SELF");
+
+    assert.entityCount("Account", 1);
+    assert.fieldEquals("Account", ALICE, "recordCount", "1");
+    assert.fieldEquals("Account", ALICE, "selfTransferCount", "1");
+    assert.fieldEquals("Account", ALICE, "sentCount", "0");
+    assert.fieldEquals("Account", ALICE, "receivedCount", "0");
+    assert.fieldEquals("Account", ALICE, "totalSent", "0");
+    assert.fieldEquals("Account", ALICE, "totalReceived", "0");
+    assert.fieldEquals("Account", ALICE, "netFlow", "0");
+    assert.fieldEquals("Account", ALICE, "uniqueCounterpartyCount", "0");
+    assert.fieldEquals("Account", ALICE, "firstActivityTimestamp", TIMESTAMP.toString());
+
+    // 自转账不产生任何资金流动统计
+    assert.entityCount("AccountDaySnapshot", 0);
+    assert.entityCount("LeaderboardEntry", 0);
+    assert.entityCount("AccountPair", 0);
+    assert.entityCount("TransferDataPoint", 0);
+    assert.entityCount("DailyTransferStat", 0);
+    assert.entityCount("HourlyTransferStat", 0);
+
+    assert.fieldEquals("Protocol", "protocol", "totalRecords", "1");
+    assert.fieldEquals("Protocol", "protocol", "uniqueAccountCount", "1");
+    assert.fieldEquals("Protocol", "protocol", "uniqueSenderCount", "0");
+    assert.fieldEquals("Protocol", "protocol", "uniqueReceiverCount", "0");
+  });
+
+  test("classifies a transfer to an indexed contract", () => {
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        CONTRACT_ADDRESS,
+        eth(1),
+        TIMESTAMP,
+        "oops",
+        0,
+        TX_1,
+        0
+      )
+    );
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        Address.fromString(BOB),
+        eth(1),
+        TIMESTAMP,
+        "normal",
+        1,
+        TX_2,
+        0
+      )
+    );
+
+    assert.fieldEquals("TransferRecord", TX_1 + "-0", "kind", "CONTRACT_RECIPIENT");
+    assert.fieldEquals("TransferRecord", TX_2 + "-0", "kind", "NORMAL");
+    // 转给合约的记录照常计入账户统计
+    assert.fieldEquals("Account", ALICE, "sentCount", "2");
+  });
+
+  test("classifies a transfer to a recipient with code but no entity", () => {
+    const vault = "0x00000000000000000000000000000000000000c1";
+    const code = new AddressCode(vault);
+    code.hasCode = true;
+    code.checkedAtBlock = BigInt.fromI32(1);
+    code.save();
+
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        Address.fromString(vault),
+        eth(1),
+        TIMESTAMP,
+        "deposit",
+        0,
+        TX_1,
+        0
+      )
+    );
+
+    assert.fieldEquals("TransferRecord", TX_1 + "-0", "kind", "CONTRACT_RECIPIENT");
+    assert.notInStore("TransferContract", vault);
+  });
+
+  test("stores every log of a multi-log transaction as its own record", () => {
+    const first = createValidTransferRecordEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      eth(1),
+      TIMESTAMP,
+      "log 0",
+      0,
+      TX_1,
+      0
+    );
+    handleTransferRecord(first);
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        Address.fromString(CAROL),
+        eth(2),
+        TIMESTAMP,
+        "log 1",
+        1,
+        TX_1,
+        1
+      )
+    );
+
+    assert.entityCount("TransferRecord", 2);
+    assert.fieldEquals("TransferRecord", TX_1 + "-0", "to", BOB);
+    assert.fieldEquals("TransferRecord", TX_1 + "-1", "to", CAROL);
+    assert.fieldEquals("TransferRecord", TX_1 + "-1", "sequenceNumber", "1");
+
+    // 两条日志共用同一个交易实体
+    assert.entityCount("Transaction", 1);
+    assert.fieldEquals("TransferRecord", TX_1 + "-1", "transaction", TX_1);
+    assert.fieldEquals("Transaction", TX_1, "gasPrice", first.transaction.gasPrice.toString());
+    assert.fieldEquals("Transaction", TX_1, "transactionIndex", first.transaction.index.toString());
+
+    // 两条日志位于同一区块
+    assert.fieldEquals("Block", first.block.hash.toHexString(), "transferCount", "2");
+
+    const dayId = (TIMESTAMP.toI32() / 86400).toString();
+    assert.fieldEquals("DailyTransferStat", dayId, "recordCount", "2");
+    assert.fieldEquals("DailyTransferStat", dayId, "uniqueSenderCount", "1");
+    assert.fieldEquals("DailyTransferStat", dayId, "uniqueReceiverCount", "2");
+  });
+
+  test("keeps running totals in per-account day snapshots", () => {
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        Address.fromString(BOB),
+        eth(3),
+        TIMESTAMP,
+        "day 1",
+        0,
+        TX_1,
+        0
+      )
+    );
+    const nextDay = TIMESTAMP.plus(BigInt.fromI32(86400));
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(BOB),
+        Address.fromString(ALICE),
+        eth(1),
+        nextDay,
+        "day 2",
+        1,
+        TX_2,
+        0
+      )
+    );
+
+    const day1 = (TIMESTAMP.toI32() / 86400).toString();
+    const day2 = (nextDay.toI32() / 86400).toString();
+    assert.entityCount("AccountDaySnapshot", 4);
+
+    assert.fieldEquals("AccountDaySnapshot", ALICE + "-" + day1, "totalSent", eth(3).toString());
+    assert.fieldEquals("AccountDaySnapshot", ALICE + "-" + day1, "daySentCount", "1");
+    assert.fieldEquals("AccountDaySnapshot", ALICE + "-" + day1, "dayReceivedCount", "0");
+
+    // 第二天的快照携带截至当天的累计值，当天统计只包含当天的转账
+    const aliceDay2 = ALICE + "-" + day2;
+    assert.fieldEquals("AccountDaySnapshot", aliceDay2, "account", ALICE);
+    assert.fieldEquals("AccountDaySnapshot", aliceDay2, "sentCount", "1");
+    assert.fieldEquals("AccountDaySnapshot", aliceDay2, "receivedCount", "1");
+    assert.fieldEquals("AccountDaySnapshot", aliceDay2, "totalSent", eth(3).toString());
+    assert.fieldEquals("AccountDaySnapshot", aliceDay2, "netFlow", eth(2).neg().toString());
+    assert.fieldEquals("AccountDaySnapshot", aliceDay2, "daySentCount", "0");
+    assert.fieldEquals("AccountDaySnapshot", aliceDay2, "dayReceived", eth(1).toString());
+    assert.fieldEquals("AccountDaySnapshot", BOB + "-" + day2, "netFlow", eth(2).toString());
+  });
+
+  test("raises a large-transfer alert at the highest tier exceeded", () => {
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        Address.fromString(BOB),
+        eth(1),
+        TIMESTAMP,
+        "at threshold",
+        0,
+        TX_1,
+        0
+      )
+    );
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        Address.fromString(BOB),
+        eth(50),
+        TIMESTAMP,
+        "large",
+        1,
+        TX_2,
+        0
+      )
+    );
+
+    // 金额等于阈值不触发预警
+    assert.entityCount("LargeTransferAlert", 1);
+
+    const alertId = TX_2 + "-0";
+    assert.fieldEquals("LargeTransferAlert", alertId, "record", alertId);
+    assert.fieldEquals("LargeTransferAlert", alertId, "severity", "MEDIUM");
+    assert.fieldEquals("LargeTransferAlert", alertId, "threshold", eth(10).toString());
+    assert.fieldEquals("LargeTransferAlert", alertId, "from", ALICE);
+    assert.fieldEquals("LargeTransferAlert", alertId, "value", eth(50).toString());
+  });
+
+  test("reads alert tiers from the data source context", () => {
+    const context = new DataSourceContext();
+    context.set(
+      "alertTiersEth",
+      Value.fromArray([Value.fromI32(5), Value.fromI32(50), Value.fromI32(500)])
+    );
+    dataSourceMock.setContext(context);
+
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        Address.fromString(BOB),
+        eth(20),
+        TIMESTAMP,
+        "configured",
+        0,
+        TX_1,
+        0
+      )
+    );
+
+    // 默认阈值下 20 ETH 为 MEDIUM，按 context 中的阈值只超过最低一档
+    const alertId = TX_1 + "-0";
+    assert.fieldEquals("LargeTransferAlert", alertId, "severity", "LOW");
+    assert.fieldEquals("LargeTransferAlert", alertId, "threshold", eth(5).toString());
+  });
+
+  test("links a resubmitted transfer within the block window to the original", () => {
+    const original = createValidTransferRecordEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      eth(1),
+      TIMESTAMP,
+      "rent",
+      0,
+      TX_1,
+      0
+    );
+    handleTransferRecord(original);
+
+    const resubmitted = createValidTransferRecordEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      eth(1),
+      TIMESTAMP.plus(BigInt.fromI32(12)),
+      "rent",
+      1,
+      TX_2,
+      0
+    );
+    resubmitted.block.number = original.block.number.plus(BigInt.fromI32(1));
+    handleTransferRecord(resubmitted);
+
+    const later = createValidTransferRecordEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      eth(1),
+      TIMESTAMP.plus(BigInt.fromI32(3600)),
+      "rent",
+      2,
+      TX_3,
+      0
+    );
+    later.block.number = original.block.number.plus(BigInt.fromI32(300));
+    handleTransferRecord(later);
+
+    assert.fieldEquals("TransferRecord", TX_2 + "-0", "possibleDuplicateOf", TX_1 + "-0");
+    // 超出检测窗口的相同转账不视为重复
+    const record = TransferRecord.load(TX_3 + "-0");
+    assert.assertNotNull(record);
+    if (record !== null) {
+      assert.assertTrue(record.possibleDuplicateOf === null);
+    }
+    assert.fieldEquals("Account", ALICE, "possibleDuplicateCount", "1");
+    assert.fieldEquals("Account", ALICE, "sentCount", "3");
+  });
+
+  test("does not link identical transfers on different contracts", () => {
+    const otherContract = Address.fromString("0x00000000000000000000000000000000000000c2");
+    mockGetContractInfo(1, otherContract);
+
+    const original = createValidTransferRecordEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      eth(1),
+      TIMESTAMP,
+      "rent",
+      0,
+      TX_1,
+      0
+    );
+    handleTransferRecord(original);
+
+    const sameContent = createValidTransferRecordEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      eth(1),
+      TIMESTAMP.plus(BigInt.fromI32(12)),
+      "rent",
+      1,
+      TX_2,
+      0
+    );
+    sameContent.address = otherContract;
+    sameContent.block.number = original.block.number.plus(BigInt.fromI32(1));
+    handleTransferRecord(sameContent);
+
+    const record = TransferRecord.load(TX_2 + "-0");
+    assert.assertNotNull(record);
+    if (record !== null) {
+      assert.assertTrue(record.possibleDuplicateOf === null);
+    }
+    assert.entityCount("TransferFingerprint", 2);
+    assert.fieldEquals("Account", ALICE, "possibleDuplicateCount", "0");
+  });
+
+  test("reads the duplicate block window from the data source context", () => {
+    const context = new DataSourceContext();
+    context.setI32("duplicateBlockWindow", 0);
+    dataSourceMock.setContext(context);
+
+    const original = createValidTransferRecordEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      eth(1),
+      TIMESTAMP,
+      "rent",
+      0,
+      TX_1,
+      0
+    );
+    handleTransferRecord(original);
+
+    // 默认窗口下会被视为重复，窗口为 0 时只有同一区块内的相同记录才算
+    const nextBlock = createValidTransferRecordEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      eth(1),
+      TIMESTAMP.plus(BigInt.fromI32(12)),
+      "rent",
+      1,
+      TX_2,
+      0
+    );
+    nextBlock.block.number = original.block.number.plus(BigInt.fromI32(1));
+    handleTransferRecord(nextBlock);
+
+    const record = TransferRecord.load(TX_2 + "-0");
+    assert.assertNotNull(record);
+    if (record !== null) {
+      assert.assertTrue(record.possibleDuplicateOf === null);
+    }
+    assert.fieldEquals("Account", ALICE, "possibleDuplicateCount", "0");
+  });
+
+  test("counts a transfer in the leaderboard windows that cover its day", () => {
+    handleTransferRecord(
+      createValidTransferRecordEvent(
+        Address.fromString(ALICE),
+        Address.fromString(BOB),
+        eth(2),
+        TIMESTAMP,
+        "leaderboard",
+        0,
+        TX_1,
+        0
+      )
+    );
+
+    const day = TIMESTAMP.toI32() / 86400;
+    assert.fieldEquals("LeaderboardEntry", "ALL_TIME-0-" + ALICE, "sentVolume", eth(2).toString());
+    assert.fieldEquals("LeaderboardEntry", "ALL_TIME-0-" + BOB, "receivedCount", "1");
+
+    // 结束于当天到第 6 天后的 7 天窗口都包含这笔转账
+    const lastWeekly = "LAST_7_DAYS-" + (day + 6).toString() + "-" + ALICE;
+    assert.fieldEquals("LeaderboardEntry", lastWeekly, "sentCount", "1");
+    assert.fieldEquals("LeaderboardEntry", lastWeekly, "receivedCount", "0");
+    assert.notInStore("LeaderboardEntry", "LAST_7_DAYS-" + (day + 7).toString() + "-" + ALICE);
+    assert.fieldEquals(
+      "LeaderboardEntry",
+      "LAST_30_DAYS-" + (day + 29).toString() + "-" + BOB,
+      "receivedVolume",
+      eth(2).toString()
+    );
+    assert.entityCount("LeaderboardEntry", 2 * (1 + 7 + 30));
+  });
+
+  test("flags a recordId that does not match the contract scheme", () => {
+    const event = createTransferRecordEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      eth(1),
+      TIMESTAMP,
+      "forged",
+      Bytes.fromHexString(TX_2)
+    );
+    handleTransferRecord(event);
+
+    const id = event.transaction.hash.toHexString() + "-" + event.logIndex.toString();
+    assert.fieldEquals("TransferRecord", id, "recordIdVerified", "false");
+
+    const record = TransferRecord.load(id);
+    assert.assertNotNull(record);
+    if (record !== null) {
+      assert.assertTrue(record.sequenceNumber === null);
+    }
+
+    // 账户统计不受校验结果影响
+    assert.fieldEquals("Account", ALICE, "sentCount", "1");
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * 备注解析单元测试 - parseMemo / 标签、提及和回复实体
+ *
+ * 🎯 覆盖场景：
+ * - 解析规则：标签大小写与去重、单词中间的 #、不完整的地址、中文前缀的回复
+ * - 映射结果：MessageTag / Mention 实体和 re:<recordId> 回复关联
+ *
+ * 💡 运行方式：pnpm test（即 graph test）
+ */
+
+import { Address, BigInt } from "@graphprotocol/graph-ts";
+import {
+  afterEach,
+  assert,
+  beforeEach,
+  clearStore,
+  describe,
+  test,
+} from "matchstick-as/assembly/index";
+
+import { handleTransferRecord } from "../src/mapping";
+import { parseMemo } from "../src/memos";
+
+import {
+  createValidTransferRecordEvent,
+  mockGetContractInfo,
+} from "./simple-transfer-contract-utils";
+
+// ==================== 测试数据 ====================
+
+const ALICE = "0x0000000000000000000000000000000000000001";
+const BOB = "0x0000000000000000000000000000000000000002";
+const CAROL = "0x0000000000000000000000000000000000000003";
+
+const TX_1 = "0x1111111111111111111111111111111111111111111111111111111111111111";
+const TX_2 = "0x2222222222222222222222222222222222222222222222222222222222222222";
+
+const TIMESTAMP = BigInt.fromI32(1700000000);
+
+// ==================== parseMemo ====================
+
+describe("parseMemo", () => {
+  test("extracts lower-cased, de-duplicated tags", () => {
+    const memo = parseMemo("#Rent 三月 #房租，#rent email#notatag");
+
+    assert.i32Equals(2, memo.tags.length);
+    assert.stringEquals("rent", memo.tags[0]);
+    assert.stringEquals("房租", memo.tags[1]);
+  });
+
+  test("only accepts complete addresses as mentions", () => {
+    const memo = parseMemo("thanks @" + CAROL + " and @0x1234 and @" + CAROL.toUpperCase());
+
+    assert.i32Equals(1, memo.mentions.length);
+    assert.stringEquals(CAROL, memo.mentions[0]);
+  });
+
+  test("reads a reply reference after a Chinese prefix", () => {
+    const memo = parseMemo("回复re:" + TX_1 + " 收到");
+
+    assert.assertTrue(memo.replyTo !== null);
+    if (memo.replyTo !== null) {
+      assert.stringEquals(TX_1, memo.replyTo as string);
+    }
+    assert.assertTrue(parseMemo("are:" + TX_1).replyTo === null);
+  });
+});
+
+// ==================== handleTransferRecord ====================
+
+describe("handleTransferRecord memo entities", () => {
+  beforeEach(() => {
+    mockGetContractInfo(1);
+  });
+
+  afterEach(() => {
+    clearStore();
+  });
+
+  test("writes tags, mentions and the reply link", () => {
+    const original = createValidTransferRecordEvent(
+      Address.fromString(ALICE),
+      Address.fromString(BOB),
+      BigInt.fromI32(100),
+      TIMESTAMP,
+      "#lunch with @" + CAROL,
+      0,
+      TX_1,
+      0
+    );
+    handleTransferRecord(original);
+
+    const originalId = TX_1 + "-0";
+    assert.fieldEquals("MessageTag", "lunch", "recordCount", "1");
+    assert.fieldEquals("TransferRecord", originalId, "tags", "[lunch]");
+    assert.fieldEquals("Mention", originalId + "-" + CAROL, "mentioned", CAROL);
+    assert.fieldEquals("Mention", originalId + "-" + CAROL, "author", ALICE);
+    // 被提及的地址也有对应的账户实体
+    assert.fieldEquals("Account", CAROL, "sentCount", "0");
+
+    const reply = createValidTransferRecordEvent(
+      Address.fromString(BOB),
+      Address.fromString(ALICE),
+      BigInt.fromI32(50),
+      TIMESTAMP.plus(BigInt.fromI32(60)),
+      "#Lunch re:" + original.params.recordId.toHexString(),
+      1,
+      TX_2,
+      0
+    );
+    handleTransferRecord(reply);
+
+    const replyId = TX_2 + "-0";
+    assert.fieldEquals("TransferRecord", replyId, "replyTo", originalId);
+    assert.fieldEquals(
+      "TransferRecord",
+      replyId,
+      "replyToRecordId",
+      original.params.recordId.toHexString()
+    );
+    assert.fieldEquals("MessageTag", "lunch", "recordCount", "2");
+    assert.entityCount("Mention", 1);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * 合约部署登记单元测试 - handleContractRegistered
+ *
+ * 🎯 覆盖场景：
+ * - 登记新合约：创建 TransferContract 实体
+ * - 登记已被索引的合约：保持原有实体不变
+ */
+
+import { Address } from "@graphprotocol/graph-ts";
+import { afterEach, assert, clearStore, describe, test } from "matchstick-as/assembly/index";
+
+import { handleContractRegistered } from "../src/registry";
+
+import { createContractRegisteredEvent } from "./simple-transfer-registry-utils";
+
+const COHORT_CONTRACT = "0x00000000000000000000000000000000000000c1";
+const TEACHER = "0x00000000000000000000000000000000000000aa";
+
+describe("handleContractRegistered", () => {
+  afterEach(() => {
+    clearStore();
+  });
+
+  test("creates a TransferContract for a newly registered deployment", () => {
+    handleContractRegistered(
+      createContractRegisteredEvent(
+        Address.fromString(COHORT_CONTRACT),
+        Address.fromString(TEACHER),
+        "cohort-1"
+      )
+    );
+
+    assert.entityCount("TransferContract", 1);
+    assert.fieldEquals("TransferContract", COHORT_CONTRACT, "name", "cohort-1");
+    assert.fieldEquals("TransferContract", COHORT_CONTRACT, "registrant", TEACHER);
+    assert.fieldEquals("TransferContract", COHORT_CONTRACT, "totalRecords", "0");
+  });
+
+  test("keeps the existing entity when a deployment is registered twice", () => {
+    handleContractRegistered(
+      createContractRegisteredEvent(
+        Address.fromString(COHORT_CONTRACT),
+        Address.fromString(TEACHER),
+        "cohort-1"
+      )
+    );
+    handleContractRegistered(
+      createContractRegisteredEvent(
+        Address.fromString(COHORT_CONTRACT),
+        Address.fromString(TEACHER),
+        "renamed"
+      )
+    );
+
+    assert.entityCount("TransferContract", 1);
+    assert.fieldEquals("TransferContract", COHORT_CONTRACT, "name", "cohort-1");
+  });
+});
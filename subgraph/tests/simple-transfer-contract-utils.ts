@@ -0,0 +1,108 @@
+/**
+ * 测试工具 - SimpleTransferContract 事件构造函数
+ *
+ * 🎯 核心功能：
+ * - 构造 TransferRecord 模拟事件，供 Matchstick 单元测试调用映射函数
+ * - 支持指定交易哈希和日志索引，模拟同一交易中的多条日志
+ * - 模拟 getContractInfo() 调用，供 Protocol 对账使用
+ */
+
+import { Address, BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts";
+import { createMockedFunction, newMockEvent } from "matchstick-as/assembly/index";
+
+import { TransferRecord as TransferRecordEvent } from "../generated/templates/SimpleTransferContractTemplate/SimpleTransferContract";
+
+import { computeRecordId } from "../src/verification";
+
+// newMockEvent() 默认使用的合约地址
+export const CONTRACT_ADDRESS = Address.fromString("0xA16081F360e3847006dB660bae1c6d1b2e17eC2A");
+
+/**
+ * 构造 TransferRecord 事件
+ *
+ * @param from - 发送方地址
+ * @param to - 接收方地址
+ * @param transferValue - 转账金额（Wei）
+ * @param timestamp - 转账时间戳
+ * @param message - 转账备注
+ * @param recordId - 事件中的记录ID
+ * @returns 模拟事件对象
+ */
+export function createTransferRecordEvent(
+  from: Address,
+  to: Address,
+  transferValue: BigInt,
+  timestamp: BigInt,
+  message: string,
+  recordId: Bytes
+): TransferRecordEvent {
+  const event = changetype<TransferRecordEvent>(newMockEvent());
+
+  event.parameters = [];
+  event.parameters.push(new ethereum.EventParam("from", ethereum.Value.fromAddress(from)));
+  event.parameters.push(new ethereum.EventParam("to", ethereum.Value.fromAddress(to)));
+  event.parameters.push(
+    new ethereum.EventParam("transferValue", ethereum.Value.fromUnsignedBigInt(transferValue))
+  );
+  event.parameters.push(
+    new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(timestamp))
+  );
+  event.parameters.push(new ethereum.EventParam("message", ethereum.Value.fromString(message)));
+  event.parameters.push(
+    new ethereum.EventParam("recordId", ethereum.Value.fromFixedBytes(recordId))
+  );
+
+  return event;
+}
+
+/**
+ * 构造 recordId 符合合约规则的 TransferRecord 事件
+ *
+ * @param from - 发送方地址
+ * @param to - 接收方地址
+ * @param transferValue - 转账金额（Wei）
+ * @param timestamp - 转账时间戳
+ * @param message - 转账备注
+ * @param sequence - 记录在合约中的序号（写入前的 totalRecords）
+ * @param txHash - 交易哈希
+ * @param logIndex - 日志索引
+ * @returns 模拟事件对象
+ */
+export function createValidTransferRecordEvent(
+  from: Address,
+  to: Address,
+  transferValue: BigInt,
+  timestamp: BigInt,
+  message: string,
+  sequence: i32,
+  txHash: string,
+  logIndex: i32
+): TransferRecordEvent {
+  const recordId = computeRecordId(from, to, transferValue, timestamp, BigInt.fromI32(sequence));
+  const event = createTransferRecordEvent(from, to, transferValue, timestamp, message, recordId);
+
+  event.transaction.hash = Bytes.fromHexString(txHash);
+  event.logIndex = BigInt.fromI32(logIndex);
+  event.block.timestamp = timestamp;
+
+  return event;
+}
+
+/**
+ * 模拟合约的 getContractInfo() 调用
+ *
+ * @param totalRecords - 合约返回的 totalRecords
+ * @param contract - 被调用的合约地址，默认为 CONTRACT_ADDRESS
+ */
+export function mockGetContractInfo(totalRecords: i32, contract: Address = CONTRACT_ADDRESS): void {
+  createMockedFunction(
+    contract,
+    "getContractInfo",
+    "getContractInfo():(uint256,address,uint256,uint256)"
+  ).returns([
+    ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(totalRecords)),
+    ethereum.Value.fromAddress(CONTRACT_ADDRESS),
+    ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+    ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+  ]);
+}
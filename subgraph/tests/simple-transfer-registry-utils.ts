@@ -0,0 +1,35 @@
+/**
+ * 测试工具 - SimpleTransferRegistry 事件构造函数
+ */
+
+import { Address, ethereum } from "@graphprotocol/graph-ts";
+import { newMockEvent } from "matchstick-as/assembly/index";
+
+import { ContractRegistered as ContractRegisteredEvent } from "../generated/templates/SimpleTransferContractTemplate/SimpleTransferRegistry";
+
+/**
+ * 构造 ContractRegistered 事件
+ *
+ * @param contractAddress - 登记的合约地址
+ * @param registrant - 登记人地址
+ * @param name - 部署名称
+ * @returns 模拟事件对象
+ */
+export function createContractRegisteredEvent(
+  contractAddress: Address,
+  registrant: Address,
+  name: string
+): ContractRegisteredEvent {
+  const event = changetype<ContractRegisteredEvent>(newMockEvent());
+
+  event.parameters = [];
+  event.parameters.push(
+    new ethereum.EventParam("contractAddress", ethereum.Value.fromAddress(contractAddress))
+  );
+  event.parameters.push(
+    new ethereum.EventParam("registrant", ethereum.Value.fromAddress(registrant))
+  );
+  event.parameters.push(new ethereum.EventParam("name", ethereum.Value.fromString(name)));
+
+  return event;
+}